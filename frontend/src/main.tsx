@@ -1,7 +1,8 @@
 import React, {
   useCallback,
   useEffect,
-  useMemo
+  useMemo,
+  useState
 } from 'react';
 import { createRoot } from 'react-dom/client';
 import { BrowserRouter, Routes, Route, Link, useLocation, useNavigate, useSearchParams } from 'react-router-dom';
@@ -10,14 +11,21 @@ import { createStore } from 'zustand/vanilla';
 import './styles.css';
 import {
   AppConfig,
+  IdentityProvider,
+  MockPersona,
   StoredTokens,
   getAppConfig,
+  getActiveProvider,
+  forgetActiveProvider,
   getStoredTokens,
   clearStoredTokens,
   setStoredTokens,
   startLogin as oauthStartLogin,
   handleRedirect,
-  fetchUserInfo
+  fetchUserInfo,
+  refreshAccessToken,
+  signOutFromProvider,
+  REQUESTED_SCOPES
 } from './oauth';
 
 declare global {
@@ -71,6 +79,7 @@ type QuestionnaireResponse = {
   status: string;
   authored?: string;
   meta?: {
+    versionId?: string;
     lastUpdated?: string;
   };
   subject?: {
@@ -150,6 +159,8 @@ type CompletedHistoryEntry = {
 type ExistingResponseLoad = {
   document: FinancialInterestsDocument;
   responseId: string | null;
+  // Version of the draft as loaded, sent back as If-Match so concurrent edits are detected.
+  responseVersionId?: string | null;
   latestSubmitted?: FinancialInterestsDocument;
   completedHistory: CompletedHistoryEntry[];
 };
@@ -172,13 +183,15 @@ type SubmissionBackend = {
     user: AuthenticatedUser,
     questionnaire: Questionnaire,
     document: FinancialInterestsDocument,
-    responseId: string | null
+    responseId: string | null,
+    versionId?: string | null
   ): Promise<QuestionnaireResponse>;
   submit(
     user: AuthenticatedUser,
     questionnaire: Questionnaire,
     document: FinancialInterestsDocument,
-    responseId: string | null
+    responseId: string | null,
+    versionId?: string | null
   ): Promise<QuestionnaireResponse>;
 };
 
@@ -211,6 +224,87 @@ const selectInputClass = `${fieldInputClass} bg-white`;
 const checkboxInputClass = 'h-4 w-4 rounded border-slate-300 text-blue-600 focus:ring-2 focus:ring-blue-200 focus:outline-none';
 const sectionCardGap = 24;
 const POST_LOGIN_REDIRECT_KEY = 'fi.postLoginRedirect';
+const PENDING_SAVE_KEY = 'fi.pendingSave.v1';
+const TOKEN_RENEWAL_LEAD_MS = 60_000;
+
+type PendingSave = {
+  sub: string;
+  responseId: string | null;
+  responseVersionId?: string | null;
+  document: FinancialInterestsDocument;
+};
+
+class FhirUnauthorizedError extends Error {
+  constructor(message = 'Your session has expired. Please sign in again.') {
+    super(message);
+    this.name = 'FhirUnauthorizedError';
+  }
+}
+
+// PATCH refusals that autosave answers by PUTting the whole draft: malformed, unsupported or unfitting diffs.
+const PATCH_FALLBACK_STATUSES = [400, 415, 422];
+
+// The server rejected an If-Match write because the resource changed since it was loaded.
+class FhirConflictError extends Error {
+  constructor(message = 'This filing was changed in another tab or window.') {
+    super(message);
+    this.name = 'FhirConflictError';
+  }
+}
+
+type OperationOutcomeIssue = {
+  severity?: string;
+  code?: string;
+  diagnostics?: string;
+  expression?: string[];
+};
+
+// Any other failure the server explained with an OperationOutcome.
+class FhirOperationError extends Error {
+  constructor(readonly status: number, readonly issues: OperationOutcomeIssue[]) {
+    super(issues.map((issue) => issue.diagnostics ?? issue.code).filter(Boolean).join('; ') || `FHIR request failed (${status})`);
+    this.name = 'FhirOperationError';
+  }
+}
+
+// A server-reported problem, labelled with the element it concerns where the server named one.
+type FieldIssue = {
+  field: string | null;
+  message: string;
+};
+
+/** Reads expressions such as `QuestionnaireResponse.subject.identifier` back into "subject.identifier". */
+function fieldIssuesFrom(error: FhirOperationError): FieldIssue[] {
+  return error.issues.map((issue) => ({
+    field: issue.expression?.[0]?.replace(/^QuestionnaireResponse\./, '') ?? null,
+    message: issue.diagnostics ?? issue.code ?? 'Invalid value'
+  }));
+}
+
+async function readOperationOutcome(response: Response): Promise<OperationOutcomeIssue[] | null> {
+  try {
+    const body = (await response.json()) as { resourceType?: string; issue?: OperationOutcomeIssue[] };
+    return body.resourceType === 'OperationOutcome' && Array.isArray(body.issue) ? body.issue : null;
+  } catch {
+    return null;
+  }
+}
+
+function stashPendingSave(pending: PendingSave) {
+  sessionStorage.setItem(PENDING_SAVE_KEY, JSON.stringify(pending));
+}
+
+function takePendingSave(user: AuthenticatedUser): PendingSave | null {
+  const raw = sessionStorage.getItem(PENDING_SAVE_KEY);
+  if (!raw) return null;
+  sessionStorage.removeItem(PENDING_SAVE_KEY);
+  try {
+    const pending = JSON.parse(raw) as PendingSave;
+    return pending.sub === user.sub ? pending : null;
+  } catch {
+    return null;
+  }
+}
 
 function formatDateTime(value?: string | null) {
   if (!value) return '';
@@ -247,15 +341,26 @@ type FinancialInterestsStore = {
   authStatus: AuthStatus;
   setAuthStatus: (status: AuthStatus) => void;
   resetAuth: () => void;
-  login: () => Promise<void> | void;
-  logout: () => void;
+  login: (providerId?: string) => Promise<void> | void;
+  logout: () => Promise<void> | void;
+  reauthenticate: () => Promise<void>;
+  identityProviders: IdentityProvider[];
+  mockPersonas: MockPersona[] | null;
+  completeMockLogin: (claims: Record<string, unknown>) => Promise<void>;
+  cancelMockLogin: () => void;
   bootstrapAuth: () => Promise<void>;
   user: AuthenticatedUser | null;
+  sessionWarning: string | null;
   status: 'idle' | 'loading' | 'ready' | 'submitting' | 'error';
   error: string | null;
   questionnaire: Questionnaire | null;
   document: FinancialInterestsDocument;
   responseId: string | null;
+  responseVersionId: string | null;
+  // Local edits that could not be saved because the draft changed elsewhere.
+  saveConflict: FinancialInterestsDocument | null;
+  // Problems the server reported with the last submission, cleared when a submission succeeds.
+  fieldIssues: FieldIssue[];
   latestSubmitted: FinancialInterestsDocument | null;
   lastSubmittedDocument: FinancialInterestsDocument | null;
   history: CompletedHistoryEntry[];
@@ -275,7 +380,8 @@ type FinancialInterestsStore = {
   loadSample: () => Promise<void>;
   loadFromHistory: (responseId: string) => Promise<void>;
   loadLatestSubmission: () => Promise<void>;
-  saveDraft: (opts?: { silent?: boolean; document?: FinancialInterestsDocument }) => Promise<void>;
+  saveDraft: (opts?: { silent?: boolean; document?: FinancialInterestsDocument; afterReauth?: boolean; overwrite?: boolean }) => Promise<void>;
+  resolveSaveConflict: (choice: 'reload' | 'overwrite') => Promise<void>;
   submit: () => Promise<'success' | 'error'>;
   refreshHistory: () => Promise<void>;
   cancelAutoSave: () => void;
@@ -284,6 +390,21 @@ type FinancialInterestsStore = {
 };
 
 const financialInterestsStore = createStore<FinancialInterestsStore>((set, get) => {
+  let renewalTimer: ReturnType<typeof setTimeout> | null = null;
+  let writeChain: Promise<unknown> = Promise.resolve();
+
+  // Writes run one at a time so each If-Match carries the version the previous write produced.
+  const serializeWrite = <T,>(task: () => Promise<T>): Promise<T> => {
+    const run = writeChain.then(task, task);
+    writeChain = run.catch(() => undefined);
+    return run;
+  };
+
+  const recordSaved = (saved: QuestionnaireResponse) => {
+    set({ responseId: saved.id ?? get().responseId, responseVersionId: saved.meta?.versionId ?? null });
+    return saved;
+  };
+
   const queueAutoSave = () => {
     const existing = get().autoSave;
     if (existing.handle) {
@@ -332,6 +453,46 @@ const financialInterestsStore = createStore<FinancialInterestsStore>((set, get)
     });
   };
 
+  const stashAndReauthenticate = async (document: FinancialInterestsDocument) => {
+    const user = get().user;
+    if (!user) return;
+    stashPendingSave({
+      sub: user.sub,
+      responseId: get().responseId,
+      responseVersionId: get().responseVersionId,
+      document: cloneDocument(document)
+    });
+    await get().login();
+  };
+
+  const cancelTokenRenewal = () => {
+    if (renewalTimer) {
+      clearTimeout(renewalTimer);
+    }
+    renewalTimer = null;
+  };
+
+  const scheduleTokenRenewal = (tokens: StoredTokens) => {
+    cancelTokenRenewal();
+    if (!tokens.refreshToken || !tokens.expiresAt) return;
+    const delayMs = Math.max(tokens.expiresAt - Date.now() - TOKEN_RENEWAL_LEAD_MS, 5_000);
+    renewalTimer = setTimeout(() => {
+      void renewTokens();
+    }, delayMs);
+  };
+
+  // Failure leaves the user and document in place so unsaved edits survive until re-login.
+  const renewTokens = async () => {
+    try {
+      const tokens = await refreshAccessToken();
+      await establishAuthFromTokens(tokens);
+      set({ sessionWarning: null });
+    } catch (error) {
+      console.error('Token renewal failed', error);
+      set({ sessionWarning: 'Your session could not be renewed. Your changes are kept in this tab; sign in again to keep saving.' });
+    }
+  };
+
   const performPostLoginRedirect = () => {
     const target = sessionStorage.getItem(POST_LOGIN_REDIRECT_KEY);
     if (!target) return;
@@ -340,13 +501,12 @@ const financialInterestsStore = createStore<FinancialInterestsStore>((set, get)
     window.history.replaceState({}, document.title, absolute);
   };
 
-  const establishAuthFromTokens = async (tokens: StoredTokens | null): Promise<void> => {
-    if (!tokens) {
-      clearStoredTokens();
-      get().setUser(null);
-      return;
+  const establishAuthFromTokens = async (initialTokens: StoredTokens | null): Promise<void> => {
+    let tokens = initialTokens;
+    if (tokens?.expiresAt && tokens.expiresAt < Date.now()) {
+      tokens = tokens.refreshToken ? await refreshAccessToken().catch(() => null) : null;
     }
-    if (tokens.expiresAt && tokens.expiresAt < Date.now()) {
+    if (!tokens) {
       clearStoredTokens();
       get().setUser(null);
       return;
@@ -370,18 +530,25 @@ const financialInterestsStore = createStore<FinancialInterestsStore>((set, get)
       }
     }
 
-    const sub = getClaim(claims, 'sub') ?? 'anonymous';
+    // Mirror the server: the provider decides which claim identifies the filer and how it is displayed.
+    const provider = await getActiveProvider().catch(() => null);
+    const subjectClaim = provider?.subjectClaim ?? 'sub';
+    const accessClaims = subjectClaim === 'sub' ? null : decodeIdToken(tokens.accessToken);
+    const sub =
+      getClaim(claims, subjectClaim) ??
+      (accessClaims ? getClaim(accessClaims, subjectClaim) : null) ??
+      getClaim(claims, 'sub') ??
+      'anonymous';
     const issuerCandidate =
+      provider?.issuer ??
       getClaim(claims, 'iss') ??
       config.oidcIssuer ??
       (config.mockAuth ? 'urn:mock' : '');
     const issuer = issuerCandidate && issuerCandidate.length > 0
       ? issuerCandidate
       : (config.mockAuth ? 'urn:mock' : (config.oidcIssuer ?? ''));
-    const displayName =
-      getClaim(claims, 'name') ??
-      getClaim(claims, 'preferred_username') ??
-      getClaim(claims, 'email');
+    const displayClaims = provider?.displayClaims ?? ['name', 'preferred_username', 'email'];
+    const displayName = displayClaims.map((claim) => getClaim(claims, claim)).find((value) => value !== null) ?? null;
 
     const authedUser: AuthenticatedUser = {
       sub,
@@ -389,10 +556,11 @@ const financialInterestsStore = createStore<FinancialInterestsStore>((set, get)
       accessToken: tokens.accessToken,
       idToken: tokens.idToken,
       issuer,
-      subjectSystem: `${issuer || 'urn:mock'}#sub`
+      subjectSystem: provider?.subjectSystem ?? `${issuer || 'urn:mock'}#sub`
     };
 
     get().setUser(authedUser);
+    scheduleTokenRenewal(tokens);
   };
 
   return {
@@ -402,7 +570,7 @@ const financialInterestsStore = createStore<FinancialInterestsStore>((set, get)
       get().setAuthStatus('unauthenticated');
       get().setUser(null);
     },
-    login: async () => {
+    login: async (providerId) => {
       try {
         get().setAuthStatus('loading');
         const config = await getAppConfig();
@@ -413,48 +581,48 @@ const financialInterestsStore = createStore<FinancialInterestsStore>((set, get)
         const redirectTarget = `${relativePath}${window.location.search ?? ''}${window.location.hash ?? ''}`;
         sessionStorage.setItem(POST_LOGIN_REDIRECT_KEY, redirectTarget);
         if (config.staticMode && config.mockAuth) {
-          const defaults = defaultMockClaims();
-          const email = window.prompt('Mock email address', defaults.email) ?? '';
-          if (!email) {
-            get().resetAuth();
-            return;
-          }
-          const name = window.prompt('Display name', defaults.name ?? email) ?? email;
-          const sub = window.prompt('Subject claim (sub)', defaults.sub ?? email) ?? email;
-          const claims = { ...defaults, sub, email, name } satisfies Record<string, unknown>;
-          const tokens = createMockTokens(claims, config);
-          setStoredTokens(tokens);
-          await establishAuthFromTokens(tokens);
-          performPostLoginRedirect();
+          // No identity provider is reachable in static mode, so the persona picker is rendered in-app.
+          set({ authStatus: 'unauthenticated', mockPersonas: config.mockPersonas ?? [] });
           return;
         }
-        if (config.mockAuth) {
-          const defaults = defaultMockClaims();
-          const email = window.prompt('Mock email address', defaults.email) ?? '';
-          if (!email) {
-            get().resetAuth();
-            return;
-          }
-          const name = window.prompt('Display name', defaults.name ?? email) ?? email;
-          const sub = window.prompt('Subject claim (sub)', defaults.sub ?? email) ?? email;
-          const claims = { ...defaults, sub, email, name } satisfies Record<string, unknown>;
-          await oauthStartLogin({ mockClaims: claims });
-        } else {
-          await oauthStartLogin();
-        }
+        // The mock provider's authorize endpoint renders its own persona picker.
+        await oauthStartLogin({ providerId });
       } catch (error) {
         console.error('Login error', error);
         clearStoredTokens();
         get().resetAuth();
       }
     },
-    logout: () => {
+    logout: async () => {
+      const tokens = getStoredTokens();
+      sessionStorage.removeItem(PENDING_SAVE_KEY);
+      cancelTokenRenewal();
       clearStoredTokens();
       get().resetAuth();
+      await signOutFromProvider(tokens);
+      forgetActiveProvider();
+    },
+    identityProviders: [],
+    mockPersonas: null,
+    completeMockLogin: async (claims) => {
+      const tokens = createMockTokens(claims, await getActiveProvider());
+      setStoredTokens(tokens);
+      set({ mockPersonas: null });
+      await establishAuthFromTokens(tokens);
+      performPostLoginRedirect();
+    },
+    cancelMockLogin: () => {
+      sessionStorage.removeItem(POST_LOGIN_REDIRECT_KEY);
+      set({ mockPersonas: null });
+    },
+    reauthenticate: async () => {
+      await stashAndReauthenticate(get().document);
     },
     bootstrapAuth: async () => {
       try {
         set({ authStatus: 'loading' });
+        const config = await getAppConfig();
+        set({ identityProviders: config.identityProviders });
         const tokens = await handleRedirect();
         if (tokens) {
           await establishAuthFromTokens(tokens);
@@ -470,11 +638,15 @@ const financialInterestsStore = createStore<FinancialInterestsStore>((set, get)
       }
     },
     user: null,
+    sessionWarning: null,
     status: 'idle',
     error: null,
     questionnaire: null,
     document: initialDocument(),
     responseId: null,
+    responseVersionId: null,
+    saveConflict: null,
+    fieldIssues: [],
     latestSubmitted: null,
     lastSubmittedDocument: null,
     history: [],
@@ -496,13 +668,18 @@ const financialInterestsStore = createStore<FinancialInterestsStore>((set, get)
       const prevUser = get().user;
       if (!user) {
         resetAutoSaveState();
+        cancelTokenRenewal();
         set({
           authStatus: 'unauthenticated',
           user: null,
+          sessionWarning: null,
           status: 'idle',
           questionnaire: null,
           document: initialDocument(),
           responseId: null,
+          responseVersionId: null,
+          saveConflict: null,
+          fieldIssues: [],
           latestSubmitted: null,
           lastSubmittedDocument: null,
           history: [],
@@ -522,6 +699,9 @@ const financialInterestsStore = createStore<FinancialInterestsStore>((set, get)
             status: 'idle',
           questionnaire: null,
           responseId: null,
+          responseVersionId: null,
+          saveConflict: null,
+          fieldIssues: [],
           latestSubmitted: null,
           lastSubmittedDocument: null,
           history: [],
@@ -551,6 +731,9 @@ const financialInterestsStore = createStore<FinancialInterestsStore>((set, get)
           questionnaire,
           document: baseDoc,
           responseId: existing.responseId,
+          responseVersionId: existing.responseVersionId ?? null,
+          saveConflict: null,
+          fieldIssues: [],
           latestSubmitted: latestSubmitted ?? null,
           history,
           step: 0,
@@ -558,8 +741,23 @@ const financialInterestsStore = createStore<FinancialInterestsStore>((set, get)
           saveMessage: '',
           submitMessage: ''
         });
+        const pending = takePendingSave(user);
+        if (pending) {
+          const restored = withParticipantName(pending.document, user);
+          set({
+            document: restored,
+            responseId: pending.responseId ?? existing.responseId,
+            responseVersionId: pending.responseId ? pending.responseVersionId ?? null : existing.responseVersionId ?? null
+          });
+          await get().saveDraft({ document: restored, afterReauth: true });
+        }
       } catch (error) {
         console.error(error);
+        if (error instanceof FhirUnauthorizedError) {
+          clearStoredTokens();
+          get().resetAuth();
+          return;
+        }
         set({
           status: 'error',
           error: error instanceof Error ? error.message : 'Unable to load form'
@@ -619,9 +817,11 @@ const financialInterestsStore = createStore<FinancialInterestsStore>((set, get)
       await get().loadFromHistory(latest.key);
     },
     saveDraft: async (opts = {}) => {
-      const { silent = false, document: explicitDocument } = opts;
+      const { silent = false, document: explicitDocument, afterReauth = false, overwrite = false } = opts;
       const { user, questionnaire } = get();
       if (!user || !questionnaire) return;
+      // Autosave pauses while a conflict is pending so it cannot clobber the other copy.
+      if (get().saveConflict && !overwrite) return;
       const payloadDocument = explicitDocument ? cloneDocument(explicitDocument) : get().document;
       if (!payloadDocument) return;
       resetAutoSaveState();
@@ -630,14 +830,29 @@ const financialInterestsStore = createStore<FinancialInterestsStore>((set, get)
       }
       try {
         const backend = await getSubmissionBackend();
-        const saved = await backend.saveDraft(user, questionnaire, payloadDocument, get().responseId ?? null);
-        if (!silent) {
+        await serializeWrite(async () => recordSaved(await backend.saveDraft(
+          user,
+          questionnaire,
+          payloadDocument,
+          get().responseId ?? null,
+          overwrite ? null : get().responseVersionId
+        )));
+        if (!silent || overwrite) {
           set({ saveMessage: `Draft saved at ${new Date().toLocaleTimeString()}` });
         }
-        set({ responseId: saved.id ?? get().responseId });
+        set({ saveConflict: null });
       } catch (error) {
+        if (error instanceof FhirConflictError) {
+          set({ saveConflict: cloneDocument(payloadDocument), saveMessage: 'Not saved: this draft was changed in another tab or window.' });
+          return;
+        }
+        if (error instanceof FhirUnauthorizedError && !afterReauth) {
+          set({ saveMessage: 'Session expired. Signing you in again…' });
+          await stashAndReauthenticate(payloadDocument);
+          return;
+        }
         console.error(error);
-        set({ saveMessage: 'Failed to save draft.' });
+        set({ saveMessage: error instanceof FhirOperationError ? `Failed to save draft: ${error.message}` : 'Failed to save draft.' });
         throw error;
       }
     },
@@ -649,13 +864,14 @@ const financialInterestsStore = createStore<FinancialInterestsStore>((set, get)
         return 'error';
       }
       resetAutoSaveState();
-      set({ status: 'submitting', submitMessage: 'Submitting…' });
+      set({ status: 'submitting', submitMessage: 'Submitting…', fieldIssues: [] });
       try {
         const submissionSnapshot = cloneDocument(document);
         const backend = await getSubmissionBackend();
-        const saved = await backend.submit(user, questionnaire, document, get().responseId ?? null);
+        await serializeWrite(async () => recordSaved(
+          await backend.submit(user, questionnaire, document, get().responseId ?? null, get().responseVersionId)
+        ));
         set({
-          responseId: saved.id ?? get().responseId,
           submitMessage: 'Filing submitted successfully.',
           lastSubmittedDocument: submissionSnapshot
         });
@@ -663,6 +879,27 @@ const financialInterestsStore = createStore<FinancialInterestsStore>((set, get)
         set({ status: 'ready' });
         return 'success';
       } catch (error) {
+        if (error instanceof FhirConflictError) {
+          set({
+            saveConflict: cloneDocument(document),
+            submitMessage: 'Not submitted: this draft was changed in another tab or window. Reload it or overwrite it, then submit again.',
+            status: 'ready'
+          });
+          return 'error';
+        }
+        if (error instanceof FhirUnauthorizedError) {
+          set({ submitMessage: 'Session expired. Your changes were kept; sign in again and resubmit.', status: 'ready' });
+          await stashAndReauthenticate(document);
+          return 'error';
+        }
+        if (error instanceof FhirOperationError) {
+          set({
+            fieldIssues: fieldIssuesFrom(error),
+            submitMessage: 'Unable to submit filing. Fix the problems listed above and submit again.',
+            status: 'ready'
+          });
+          return 'error';
+        }
         console.error(error);
         set({ submitMessage: 'Unable to submit filing.', status: 'ready' });
         return 'error';
@@ -683,6 +920,7 @@ const financialInterestsStore = createStore<FinancialInterestsStore>((set, get)
         set({
           document: baseDoc,
           responseId: refreshed.responseId,
+          responseVersionId: refreshed.responseVersionId ?? null,
           latestSubmitted: latestSubmitted ?? null,
           history
         });
@@ -690,6 +928,18 @@ const financialInterestsStore = createStore<FinancialInterestsStore>((set, get)
         console.error('Failed to refresh history', error);
       }
     },
+    resolveSaveConflict: async (choice) => {
+      const local = get().saveConflict;
+      if (!local) return;
+      if (choice === 'overwrite') {
+        await get().saveDraft({ document: local, overwrite: true });
+        return;
+      }
+      resetAutoSaveState();
+      set({ saveConflict: null, saveMessage: 'Loading the latest saved draft…' });
+      await get().refreshHistory();
+      set({ saveMessage: 'Reloaded the latest saved draft.' });
+    },
     cancelAutoSave: () => {
       resetAutoSaveState();
     },
@@ -713,7 +963,10 @@ function useAuth() {
   const user = useFinancialInterestsStore((state) => state.user);
   const login = useFinancialInterestsStore((state) => state.login);
   const logout = useFinancialInterestsStore((state) => state.logout);
-  return { status, user, login, logout };
+  const reauthenticate = useFinancialInterestsStore((state) => state.reauthenticate);
+  const sessionWarning = useFinancialInterestsStore((state) => state.sessionWarning);
+  const mockPersonas = useFinancialInterestsStore((state) => state.mockPersonas);
+  return { status, user, login, logout, reauthenticate, sessionWarning, mockPersonas };
 }
 
 function App() {
@@ -734,7 +987,7 @@ function App() {
 }
 
 function Layout({ children }: { children: React.ReactNode }) {
-  const { status, user, login, logout } = useAuth();
+  const { status, user, logout, reauthenticate, sessionWarning, mockPersonas } = useAuth();
   const location = useLocation();
   const navIsActive = useCallback((path: string) => {
     const current = relativeToBase(location.pathname);
@@ -761,11 +1014,20 @@ function Layout({ children }: { children: React.ReactNode }) {
             ) : status === 'loading' ? (
               <span>Connecting…</span>
             ) : (
-              <button className="primary" onClick={login}>Login</button>
+              <LoginButtons />
             )}
           </div>
         </div>
       </header>
+      {sessionWarning && (
+        <div className="container" role="alert" style={{ marginTop: 12 }}>
+          <div className="rounded-lg border border-amber-300 bg-amber-50 px-4 py-3 text-sm text-amber-900" style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 12 }}>
+            <span>{sessionWarning}</span>
+            <button className="secondary" onClick={() => { void reauthenticate(); }}>Sign in again</button>
+          </div>
+        </div>
+      )}
+      {mockPersonas && <MockPersonaPicker personas={mockPersonas} />}
       <main className="container" key={location.pathname} style={{ minHeight: '100vh', overflowY: 'auto' }}>
         {children}
       </main>
@@ -773,6 +1035,86 @@ function Layout({ children }: { children: React.ReactNode }) {
   );
 }
 
+// One button per trusted issuer; a single issuer keeps the plain "Login" label.
+function LoginButtons() {
+  const { status, login } = useAuth();
+  const providers = useFinancialInterestsStore((state) => state.identityProviders);
+  if (status === 'loading') {
+    return <button className="primary" disabled>Connecting…</button>;
+  }
+  if (providers.length <= 1) {
+    return <button className="primary" onClick={() => { void login(); }} disabled={status !== 'unauthenticated'}>Login</button>;
+  }
+  return (
+    <span style={{ display: 'inline-flex', flexWrap: 'wrap', gap: 8 }}>
+      {providers.map((provider) => (
+        <button
+          key={provider.id}
+          className="primary"
+          onClick={() => { void login(provider.id); }}
+          disabled={status !== 'unauthenticated'}
+        >
+          Sign in with {provider.label}
+        </button>
+      ))}
+    </span>
+  );
+}
+
+function MockPersonaPicker({ personas }: { personas: MockPersona[] }) {
+  const completeMockLogin = useFinancialInterestsStore((state) => state.completeMockLogin);
+  const cancelMockLogin = useFinancialInterestsStore((state) => state.cancelMockLogin);
+  const [customClaims, setCustomClaims] = useState(() => JSON.stringify(personas[0]?.claims ?? { sub: 'mock-user' }, null, 2));
+  const [customError, setCustomError] = useState<string | null>(null);
+
+  const signInWithCustomClaims = () => {
+    try {
+      const parsed = JSON.parse(customClaims) as unknown;
+      if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        throw new Error('Claims must be a JSON object');
+      }
+      setCustomError(null);
+      void completeMockLogin(parsed as Record<string, unknown>);
+    } catch {
+      setCustomError('Custom claims must be a JSON object.');
+    }
+  };
+
+  return (
+    <div className="container" style={{ marginTop: 12 }}>
+      <div className="card">
+        <h2>Sign in as…</h2>
+        <p className="small">Mock authentication is enabled. Choose a persona or supply custom claims.</p>
+        <ul className="flex flex-col gap-3" style={{ marginTop: 12 }}>
+          {personas.map((persona) => (
+            <li key={persona.id} className="flex items-center justify-between gap-4 rounded-lg border border-slate-200 bg-slate-50/70 px-4 py-3">
+              <div className="min-w-0">
+                <div className="font-medium text-slate-800">{persona.label}</div>
+                {persona.description && <div className="small">{persona.description}</div>}
+              </div>
+              <button className="primary" onClick={() => { void completeMockLogin({ ...persona.claims }); }}>Sign in</button>
+            </li>
+          ))}
+        </ul>
+        <label className={fieldLabelClass} style={{ marginTop: 16 }} htmlFor="mock-custom-claims">Custom claims (JSON)</label>
+        <textarea
+          id="mock-custom-claims"
+          className={fieldInputClass}
+          style={{ minHeight: 140, fontFamily: 'monospace' }}
+          value={customClaims}
+          onChange={(e) => setCustomClaims(e.target.value)}
+          spellCheck={false}
+        />
+        {customError && <div className="small" style={{ color: '#b91c1c', marginTop: 6 }}>{customError}</div>}
+        <div style={{ display: 'flex', justifyContent: 'space-between', marginTop: 12 }}>
+          <button className="ghost" onClick={cancelMockLogin}>Cancel</button>
+          <button className="secondary" onClick={signInWithCustomClaims}>Sign in with custom claims</button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
 function NavLink({ to, label, active }: { to: string; label: string; active: boolean }) {
   const style = active
     ? {
@@ -793,7 +1135,7 @@ function NavLink({ to, label, active }: { to: string; label: string; active: boo
 }
 
 function Home() {
-  const { status, user, login } = useAuth();
+  const { status, user } = useAuth();
   return (
     <Layout>
       <div className="card">
@@ -806,13 +1148,7 @@ function Home() {
         ) : (
           <div>
             <p className="small">Sign in with your HL7 account to get started.</p>
-            <button
-              className="primary"
-              onClick={login}
-              disabled={status !== 'unauthenticated'}
-            >
-              {status === 'loading' ? 'Connecting…' : 'Login'}
-            </button>
+            <LoginButtons />
           </div>
         )}
       </div>
@@ -856,7 +1192,7 @@ function SubmittedPage() {
 }
 
 function HistoryPage() {
-  const { status: authStatus, user, login } = useAuth();
+  const { status: authStatus, user } = useAuth();
   const navigate = useNavigate();
   const [searchParams, setSearchParams] = useSearchParams();
   const storeStatus = useFinancialInterestsStore((state) => state.status);
@@ -900,13 +1236,7 @@ function HistoryPage() {
         <div className="card">
           <h1>My History</h1>
           <p className="small">You must be logged in to view your filing history.</p>
-          <button
-            className="primary"
-            onClick={login}
-            disabled={authStatus !== 'unauthenticated'}
-          >
-            {authStatus === 'loading' ? 'Connecting…' : 'Login'}
-          </button>
+          <LoginButtons />
         </div>
       </Layout>
     );
@@ -1001,7 +1331,7 @@ function HistoryPage() {
 }
 
 function FormPage() {
-  const { status: authStatus, user, login } = useAuth();
+  const { status: authStatus, user } = useAuth();
   const navigate = useNavigate();
   const storeStatus = useFinancialInterestsStore((state) => state.status);
   const storeError = useFinancialInterestsStore((state) => state.error);
@@ -1015,6 +1345,9 @@ function FormPage() {
   const loadFromHistory = useFinancialInterestsStore((state) => state.loadFromHistory);
   const submit = useFinancialInterestsStore((state) => state.submit);
   const saveMessage = useFinancialInterestsStore((state) => state.saveMessage);
+  const saveConflict = useFinancialInterestsStore((state) => state.saveConflict);
+  const resolveSaveConflict = useFinancialInterestsStore((state) => state.resolveSaveConflict);
+  const fieldIssues = useFinancialInterestsStore((state) => state.fieldIssues);
   const submitMessage = useFinancialInterestsStore((state) => state.submitMessage);
   const history = useFinancialInterestsStore((state) => state.history);
   const canAdvanceIntro = useFinancialInterestsStore((state) => state.canAdvanceIntro());
@@ -1043,13 +1376,7 @@ function FormPage() {
         <div className="card">
           <h1>Financial Interests Form</h1>
           <p className="small">You must be logged in to edit your filing.</p>
-          <button
-            className="primary"
-            onClick={login}
-            disabled={authStatus !== 'unauthenticated'}
-          >
-            {authStatus === 'loading' ? 'Connecting…' : 'Login'}
-          </button>
+          <LoginButtons />
         </div>
       </Layout>
     );
@@ -1106,6 +1433,18 @@ function FormPage() {
           </div>
         </div>
         {saveMessage && <div className="small" style={{ marginTop: 12 }}>{saveMessage}</div>}
+        {saveConflict && (
+          <div role="alert" className="rounded-lg border border-amber-300 bg-amber-50 px-4 py-3 text-sm text-amber-900" style={{ marginTop: 12 }}>
+            <p style={{ margin: 0 }}>
+              This draft was saved from another tab or window after you opened it. Reload to continue from the saved copy (your unsaved edits here are discarded), or overwrite it with what you see here.
+            </p>
+            <div style={{ display: 'flex', gap: 8, marginTop: 8 }}>
+              <button className="secondary" onClick={() => { void resolveSaveConflict('reload'); }}>Reload saved draft</button>
+              <button className="primary" onClick={() => { void resolveSaveConflict('overwrite'); }}>Overwrite with my edits</button>
+            </div>
+          </div>
+        )}
+        {fieldIssues.length > 0 && <FieldIssueList issues={fieldIssues} />}
         <ol className="stepper" style={{ marginTop: 16 }}>
           {steps.map((wizardStep, idx) => {
             const isActive = wizardStep.id === step;
@@ -1226,6 +1565,22 @@ function FormPage() {
   );
 }
 
+function FieldIssueList({ issues }: { issues: FieldIssue[] }) {
+  return (
+    <div role="alert" className="rounded-lg border border-red-300 bg-red-50 px-4 py-3 text-sm text-red-900" style={{ marginTop: 12 }}>
+      <p style={{ margin: 0, fontWeight: 600 }}>The filing was not accepted:</p>
+      <ul style={{ margin: '8px 0 0', paddingLeft: 20 }}>
+        {issues.map((issue, index) => (
+          <li key={index}>
+            {issue.field && <strong>{issue.field}: </strong>}
+            {issue.message}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
 type SectionProps = {
   document: FinancialInterestsDocument;
   updateDocument: (fn: (current: FinancialInterestsDocument) => FinancialInterestsDocument) => void;
@@ -1845,6 +2200,7 @@ function cloneDocument(source: FinancialInterestsDocument): FinancialInterestsDo
 }
 
 type FhirBundle<T> = {
+  link?: { relation?: string; url?: string }[];
   entry?: { resource?: T }[];
 };
 
@@ -1855,7 +2211,52 @@ async function canonicalFromQuestionnaire(questionnaire: Questionnaire): Promise
   return version ? `${url}|${version}` : url;
 }
 
+type JsonPatchOperation =
+  | { op: 'add' | 'replace'; path: string; value: unknown }
+  | { op: 'remove'; path: string };
+
+/**
+ * RFC 6902 operations turning `before` into `after`. Objects are compared key by key and arrays
+ * element by element, with elements added or removed at the end, so editing one answer yields a
+ * single replace rather than a new copy of the whole item tree.
+ */
+function jsonPatchDiff(before: unknown, after: unknown, path = ''): JsonPatchOperation[] {
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const common = Math.min(before.length, after.length);
+    const operations = before.slice(0, common).flatMap((item, index) => jsonPatchDiff(item, after[index], `${path}/${index}`));
+    for (let index = common; index < after.length; index += 1) {
+      operations.push({ op: 'add', path: `${path}/${index}`, value: after[index] });
+    }
+    // Remove from the end so earlier indexes stay valid.
+    for (let index = before.length - 1; index >= common; index -= 1) {
+      operations.push({ op: 'remove', path: `${path}/${index}` });
+    }
+    return operations;
+  }
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const removed = Object.keys(before)
+      .filter((key) => !(key in after))
+      .map((key): JsonPatchOperation => ({ op: 'remove', path: `${path}/${escapePointer(key)}` }));
+    const changed = Object.entries(after).flatMap(([key, value]) => key in before
+      ? jsonPatchDiff(before[key], value, `${path}/${escapePointer(key)}`)
+      : [{ op: 'add' as const, path: `${path}/${escapePointer(key)}`, value }]);
+    return [...removed, ...changed];
+  }
+  return JSON.stringify(before) === JSON.stringify(after) ? [] : [{ op: 'replace', path, value: after }];
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function escapePointer(key: string) {
+  return key.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
 class FhirSubmissionBackend implements SubmissionBackend {
+  // The last payload written to each QuestionnaireResponse and the version it produced, which autosave diffs against.
+  private lastWritten = new Map<string, { versionId: string; payload: QuestionnaireResponse }>();
+
   async fetchQuestionnaire(user: AuthenticatedUser): Promise<Questionnaire> {
     const config = await getAppConfig();
     const canonical = config.questionnaire ?? { url: '', version: '' };
@@ -1876,29 +2277,21 @@ class FhirSubmissionBackend implements SubmissionBackend {
     searchDraft.set('subject:identifier', `${user.subjectSystem}|${user.sub}`);
     searchDraft.set('questionnaire', canonical);
     searchDraft.set('status', 'in-progress');
-    searchDraft.set('_count', '5');
+    searchDraft.set('_sort', '-authored,-_lastUpdated');
+    searchDraft.set('_count', '1');
+    searchDraft.set('_total', 'none');
     const draftRes = await this.fhirFetch(`/QuestionnaireResponse?${searchDraft.toString()}`);
     const draftBundle = await draftRes.json() as FhirBundle<QuestionnaireResponse>;
-    const draftList = (draftBundle.entry ?? [])
-      .map((entry) => entry.resource)
-      .filter((resource): resource is QuestionnaireResponse => Boolean(resource))
-      .sort((a, b) => {
-        const authoredA = Date.parse(a?.authored ?? '') || 0;
-        const authoredB = Date.parse(b?.authored ?? '') || 0;
-        return authoredB - authoredA;
-      });
-    let draft = draftList[0] ?? null;
+    let draft = draftBundle.entry?.[0]?.resource ?? null;
 
     const searchCompleted = new URLSearchParams();
     searchCompleted.set('subject:identifier', `${user.subjectSystem}|${user.sub}`);
     searchCompleted.set('questionnaire', canonical);
     searchCompleted.set('status', 'completed');
+    searchCompleted.set('_sort', '-authored');
     searchCompleted.set('_count', '50');
-    const completedRes = await this.fhirFetch(`/QuestionnaireResponse?${searchCompleted.toString()}`);
-    const completedBundle = await completedRes.json() as FhirBundle<QuestionnaireResponse>;
-    const completedList = (completedBundle.entry ?? [])
-      .map((entry) => entry.resource)
-      .filter((resource): resource is QuestionnaireResponse => Boolean(resource));
+    searchCompleted.set('_total', 'none');
+    const completedList = await this.searchAll<QuestionnaireResponse>(`/QuestionnaireResponse?${searchCompleted.toString()}`);
 
     const completedHistory = completedList
       .map((response, index) => {
@@ -1933,6 +2326,7 @@ class FhirSubmissionBackend implements SubmissionBackend {
     return {
       document: cloneDocument(baseDocument),
       responseId: draft.id ?? null,
+      responseVersionId: draft.meta?.versionId ?? null,
       latestSubmitted: latestCompleted ? cloneDocument(latestCompleted.document) : undefined,
       completedHistory: completedHistory.map((entry) => ({
         key: entry.key,
@@ -1946,22 +2340,34 @@ class FhirSubmissionBackend implements SubmissionBackend {
     user: AuthenticatedUser,
     questionnaire: Questionnaire,
     document: FinancialInterestsDocument,
-    responseId: string | null
+    responseId: string | null,
+    versionId?: string | null
   ): Promise<QuestionnaireResponse> {
     const payload = await documentToQuestionnaireResponse(questionnaire, document, 'in-progress');
     this.applySubject(payload, user);
-    return this.upsertQuestionnaireResponse(user.accessToken, payload, responseId ?? undefined);
+    const previous = responseId ? this.lastWritten.get(responseId) : undefined;
+    if (responseId && previous && previous.versionId === versionId) {
+      try {
+        return await this.patchQuestionnaireResponse(responseId, previous.versionId, payload, jsonPatchDiff(previous.payload, payload));
+      } catch (error) {
+        // A newer version on the server fails the PATCH's If-Match and stays a conflict;
+        // any other refusal sends the whole resource instead.
+        if (!(error instanceof FhirOperationError && PATCH_FALLBACK_STATUSES.includes(error.status))) throw error;
+      }
+    }
+    return this.upsertQuestionnaireResponse(payload, responseId ?? undefined, versionId ?? undefined);
   }
 
   async submit(
     user: AuthenticatedUser,
     questionnaire: Questionnaire,
     document: FinancialInterestsDocument,
-    responseId: string | null
+    responseId: string | null,
+    versionId?: string | null
   ): Promise<QuestionnaireResponse> {
     const payload = await documentToQuestionnaireResponse(questionnaire, document, 'completed');
     this.applySubject(payload, user);
-    return this.upsertQuestionnaireResponse(payload, responseId ?? undefined);
+    return this.upsertQuestionnaireResponse(payload, responseId ?? undefined, versionId ?? undefined);
   }
 
   private applySubject(payload: QuestionnaireResponse, user: AuthenticatedUser) {
@@ -1986,15 +2392,55 @@ class FhirSubmissionBackend implements SubmissionBackend {
 
   private async upsertQuestionnaireResponse(
     payload: QuestionnaireResponse,
-    existingId?: string
+    existingId?: string,
+    versionId?: string
   ): Promise<QuestionnaireResponse> {
     const method = existingId ? 'PUT' : 'POST';
     const path = existingId ? `/QuestionnaireResponse/${existingId}` : '/QuestionnaireResponse';
+    const headers: Record<string, string> = {};
+    if (existingId && versionId) headers['If-Match'] = `W/"${versionId}"`;
     const res = await this.fhirFetch(path, {
       method,
+      headers,
       body: JSON.stringify(payload)
     });
-    return (await res.json()) as QuestionnaireResponse;
+    return this.recordWritten(payload, (await res.json()) as QuestionnaireResponse);
+  }
+
+  private async patchQuestionnaireResponse(
+    id: string,
+    versionId: string,
+    payload: QuestionnaireResponse,
+    operations: JsonPatchOperation[]
+  ): Promise<QuestionnaireResponse> {
+    const res = await this.fhirFetch(`/QuestionnaireResponse/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json-patch+json', 'If-Match': `W/"${versionId}"` },
+      body: JSON.stringify(operations)
+    });
+    return this.recordWritten(payload, (await res.json()) as QuestionnaireResponse);
+  }
+
+  private recordWritten(payload: QuestionnaireResponse, saved: QuestionnaireResponse) {
+    if (saved.id && saved.meta?.versionId) {
+      this.lastWritten.set(saved.id, { versionId: saved.meta.versionId, payload });
+    }
+    return saved;
+  }
+
+  // Follows the searchset's `next` links until every page has been read.
+  private async searchAll<T>(path: string): Promise<T[]> {
+    const resources: T[] = [];
+    let next: string | undefined = path;
+    while (next) {
+      const res = await this.fhirFetch(next);
+      const bundle = await res.json() as FhirBundle<T>;
+      resources.push(...(bundle.entry ?? [])
+        .map((entry) => entry.resource)
+        .filter((resource): resource is T => Boolean(resource)));
+      next = bundle.link?.find((link) => link.relation === 'next')?.url;
+    }
+    return resources;
   }
 
   private async fhirFetch(path: string, init: RequestInit = {}): Promise<Response> {
@@ -2006,10 +2452,27 @@ class FhirSubmissionBackend implements SubmissionBackend {
     if (init.body && !headers.has('Content-Type')) {
       headers.set('Content-Type', 'application/fhir+json');
     }
-    const response = await fetch(url, { ...init, headers });
+    const stored = getStoredTokens();
+    if (stored?.accessToken) {
+      headers.set('Authorization', `Bearer ${stored.accessToken}`);
+    }
+    let response = await fetch(url, { ...init, headers });
+    if (response.status === 401 && stored?.refreshToken) {
+      const refreshed = await refreshAccessToken().catch(() => null);
+      if (refreshed) {
+        headers.set('Authorization', `Bearer ${refreshed.accessToken}`);
+        response = await fetch(url, { ...init, headers });
+      }
+    }
+    if (response.status === 401) {
+      throw new FhirUnauthorizedError();
+    }
+    if (response.status === 412) {
+      throw new FhirConflictError();
+    }
     if (!response.ok) {
-      const text = await response.text();
-      throw new Error(text || `FHIR request failed (${response.status})`);
+      const issues = await readOperationOutcome(response);
+      throw new FhirOperationError(response.status, issues ?? []);
     }
     return response;
   }
@@ -2497,10 +2960,10 @@ function base64UrlEncode(bytes: Uint8Array): string {
   return base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/g, '');
 }
 
-function createMockTokens(claims: Record<string, unknown>, config: AppConfig): StoredTokens {
+function createMockTokens(claims: Record<string, unknown>, provider: IdentityProvider): StoredTokens {
   const nowSeconds = Math.floor(Date.now() / 1000);
-  const issuer = config.oidcIssuer ?? 'urn:mock';
-  const audience = config.oidcClientId ?? 'mock-client';
+  const issuer = provider.issuer;
+  const audience = provider.clientId;
   const subject = typeof claims.sub === 'string' && claims.sub.length > 0 ? claims.sub : 'mock-user';
   const payload = {
     ...claims,
@@ -2511,7 +2974,7 @@ function createMockTokens(claims: Record<string, unknown>, config: AppConfig): S
     exp: nowSeconds + 3600
   } satisfies Record<string, unknown>;
   const idToken = createMockJwt(payload);
-  const accessToken = createMockJwt({ ...payload, scope: 'openid profile email' });
+  const accessToken = createMockJwt({ ...payload, scope: REQUESTED_SCOPES });
   return {
     accessToken,
     idToken,
@@ -2526,15 +2989,6 @@ function createMockJwt(payload: Record<string, unknown>): string {
   return `${encodedHeader}.${encodedPayload}.`;
 }
 
-function defaultMockClaims(): { sub: string; email: string; name: string; preferred_username: string } {
-  return {
-    sub: 'mock-user',
-    email: 'jane.doe@example.org',
-    name: 'Jane Doe',
-    preferred_username: 'jane.doe'
-  };
-}
-
 function padBase64(value: string): string {
   const remainder = value.length % 4;
   if (remainder === 2) return `${value}==`;
@@ -1,8 +1,27 @@
+export type MockPersona = {
+  id: string;
+  label: string;
+  description?: string;
+  claims: Record<string, unknown>;
+};
+
+export type IdentityProvider = {
+  id: string;
+  label: string;
+  issuer: string;
+  clientId: string;
+  redirectUri: string;
+  subjectSystem: string;
+  subjectClaim: string;
+  displayClaims: string[];
+};
+
 export type AppConfig = {
   fhirBaseUrl: string;
   oidcIssuer: string | null;
   oidcClientId: string | null;
   oidcRedirectUri: string | null;
+  identityProviders: IdentityProvider[];
   mockAuth: boolean;
   staticMode: boolean;
   questionnaire?: {
@@ -10,6 +29,7 @@ export type AppConfig = {
     version: string;
   } | null;
   questionnaireResource?: unknown | null;
+  mockPersonas?: MockPersona[] | null;
 };
 
 type RawAppConfig = {
@@ -17,6 +37,7 @@ type RawAppConfig = {
   oidcIssuer?: string | null;
   oidcClientId?: string | null;
   oidcRedirectUri?: string | null;
+  identityProviders?: Array<Partial<IdentityProvider>> | null;
   mockAuth?: boolean;
   staticMode?: boolean;
   questionnaire?: {
@@ -24,6 +45,7 @@ type RawAppConfig = {
     version: string;
   } | null;
   questionnaireResource?: unknown | null;
+  mockPersonas?: MockPersona[] | null;
 };
 
 export type OidcMetadata = {
@@ -31,53 +53,120 @@ export type OidcMetadata = {
   authorization_endpoint: string;
   token_endpoint: string;
   userinfo_endpoint?: string;
+  revocation_endpoint?: string;
+  end_session_endpoint?: string;
 };
 
 export type StoredTokens = {
   accessToken: string;
   idToken?: string;
+  refreshToken?: string;
   expiresAt?: number;
 };
 
+type TokenResponse = {
+  access_token: string;
+  id_token?: string;
+  refresh_token?: string;
+  expires_in?: number;
+};
+
 type StoredPkce = {
   codeVerifier: string;
   state: string;
 };
 
 const CONFIG_URL = './config.json';
+// SMART v2 scopes for everything the filing UI does against the FHIR façade.
+export const REQUESTED_SCOPES = [
+  'openid',
+  'profile',
+  'email',
+  'offline_access',
+  'user/Questionnaire.rs',
+  'user/QuestionnaireResponse.cruds'
+].join(' ');
 const TOKEN_STORAGE_KEY = 'fi.tokens.v1';
 const PKCE_STORAGE_KEY = 'fi.pkce.v1';
 const PROCESSED_CODE_KEY = 'fi.code.v1';
+const PROVIDER_STORAGE_KEY = 'fi.idp.v1';
+const DEFAULT_DISPLAY_CLAIMS = ['name', 'preferred_username', 'email'];
 
 let appConfig: AppConfig | null = window.__APP_CONFIG ?? null;
-let metadataCache: OidcMetadata | null = null;
+const metadataCache = new Map<string, OidcMetadata>();
+let refreshInFlight: Promise<StoredTokens> | null = null;
 
 export async function getAppConfig(): Promise<AppConfig> {
   if (appConfig) return appConfig;
   const response = await fetch(CONFIG_URL, { credentials: 'omit' });
   if (!response.ok) throw new Error('Unable to load app config');
   const raw = await response.json() as RawAppConfig;
+  const defaultRedirectUri = new URL('./', document.baseURI).toString();
   appConfig = {
     fhirBaseUrl: raw.fhirBaseUrl ?? new URL('./fhir', document.baseURI).pathname,
     oidcIssuer: raw.oidcIssuer ?? null,
     oidcClientId: raw.oidcClientId ?? null,
-    oidcRedirectUri: raw.oidcRedirectUri ?? new URL('./', document.baseURI).toString(),
+    oidcRedirectUri: raw.oidcRedirectUri ?? defaultRedirectUri,
+    identityProviders: normalizeProviders(raw, defaultRedirectUri),
     mockAuth: Boolean(raw.mockAuth),
     staticMode: Boolean(raw.staticMode),
     questionnaire: raw.questionnaire ?? null,
-    questionnaireResource: raw.questionnaireResource ?? null
+    questionnaireResource: raw.questionnaireResource ?? null,
+    mockPersonas: raw.mockPersonas ?? null
   } satisfies AppConfig;
   return appConfig;
 }
 
-export async function getMetadata(): Promise<OidcMetadata> {
-  if (metadataCache) return metadataCache;
+/**
+ * Older configs (and static mock builds) only carry the single `oidc*` fields; treat those as
+ * a one-entry provider list so the rest of the SPA only deals with providers.
+ */
+function normalizeProviders(raw: RawAppConfig, defaultRedirectUri: string): IdentityProvider[] {
+  const listed = (raw.identityProviders ?? []).filter((provider) => provider.issuer && provider.clientId);
+  if (listed.length > 0) {
+    return listed.map((provider, index) => ({
+      id: provider.id ?? `issuer-${index + 1}`,
+      label: provider.label ?? provider.issuer!,
+      issuer: provider.issuer!,
+      clientId: provider.clientId!,
+      redirectUri: provider.redirectUri ?? defaultRedirectUri,
+      subjectSystem: provider.subjectSystem ?? `${provider.issuer}#sub`,
+      subjectClaim: provider.subjectClaim ?? 'sub',
+      displayClaims: provider.displayClaims ?? DEFAULT_DISPLAY_CLAIMS
+    }));
+  }
+  const issuer = raw.oidcIssuer ?? (raw.mockAuth ? 'urn:mock' : null);
+  if (!issuer) return [];
+  return [{
+    id: raw.mockAuth ? 'mock' : 'default',
+    label: raw.mockAuth ? 'Mock sign-in' : 'HL7 account',
+    issuer,
+    clientId: raw.oidcClientId ?? 'mock-client',
+    redirectUri: raw.oidcRedirectUri ?? defaultRedirectUri,
+    subjectSystem: `${issuer}#sub`,
+    subjectClaim: 'sub',
+    displayClaims: DEFAULT_DISPLAY_CLAIMS
+  }];
+}
+
+/** The provider the current (or in-progress) login belongs to; defaults to the first configured one. */
+export async function getActiveProvider(): Promise<IdentityProvider> {
   const config = await getAppConfig();
-  if (!config.oidcIssuer) throw new Error('OIDC issuer not configured');
-  const response = await fetch(`${config.oidcIssuer.replace(/\/$/, '')}/.well-known/openid-configuration`);
+  const selected = sessionStorage.getItem(PROVIDER_STORAGE_KEY);
+  const provider = config.identityProviders.find((entry) => entry.id === selected) ?? config.identityProviders[0];
+  if (!provider) throw new Error('OIDC issuer not configured');
+  return provider;
+}
+
+export async function getMetadata(): Promise<OidcMetadata> {
+  const provider = await getActiveProvider();
+  const cached = metadataCache.get(provider.issuer);
+  if (cached) return cached;
+  const response = await fetch(`${provider.issuer.replace(/\/$/, '')}/.well-known/openid-configuration`);
   if (!response.ok) throw new Error('Failed to load OIDC metadata');
-  metadataCache = await response.json() as OidcMetadata;
-  return metadataCache;
+  const metadata = await response.json() as OidcMetadata;
+  metadataCache.set(provider.issuer, metadata);
+  return metadata;
 }
 
 export async function fetchUserInfo(accessToken: string): Promise<Record<string, unknown> | null> {
@@ -116,24 +205,33 @@ export function clearStoredTokens() {
   sessionStorage.removeItem(PROCESSED_CODE_KEY);
 }
 
+export function forgetActiveProvider() {
+  sessionStorage.removeItem(PROVIDER_STORAGE_KEY);
+}
+
 export function setStoredTokens(tokens: StoredTokens) {
   sessionStorage.setItem(TOKEN_STORAGE_KEY, JSON.stringify(tokens));
 }
 
-export async function startLogin(options: { mockClaims?: Record<string, unknown> } = {}): Promise<void> {
+export async function startLogin(options: { providerId?: string; mockClaims?: Record<string, unknown> } = {}): Promise<void> {
   const config = await getAppConfig();
+  if (options.providerId) {
+    if (!config.identityProviders.some((provider) => provider.id === options.providerId)) {
+      throw new Error(`Unknown identity provider: ${options.providerId}`);
+    }
+    sessionStorage.setItem(PROVIDER_STORAGE_KEY, options.providerId);
+  }
+  const provider = await getActiveProvider();
   const metadata = await getMetadata();
   const pkce = await createPkcePair();
   sessionStorage.setItem(PKCE_STORAGE_KEY, JSON.stringify(pkce));
   sessionStorage.removeItem(PROCESSED_CODE_KEY);
 
   const authorizeUrl = new URL(metadata.authorization_endpoint);
-  const clientId = config.oidcClientId ?? 'mock-client';
-  const redirectUri = config.oidcRedirectUri ?? new URL('./', document.baseURI).toString();
-  authorizeUrl.searchParams.set('client_id', clientId);
-  authorizeUrl.searchParams.set('redirect_uri', redirectUri);
+  authorizeUrl.searchParams.set('client_id', provider.clientId);
+  authorizeUrl.searchParams.set('redirect_uri', provider.redirectUri);
   authorizeUrl.searchParams.set('response_type', 'code');
-  authorizeUrl.searchParams.set('scope', 'openid profile email');
+  authorizeUrl.searchParams.set('scope', REQUESTED_SCOPES);
   authorizeUrl.searchParams.set('state', pkce.state);
   authorizeUrl.searchParams.set('code_challenge', pkce.codeChallenge);
   authorizeUrl.searchParams.set('code_challenge_method', 'S256');
@@ -172,19 +270,62 @@ export async function handleRedirect(): Promise<StoredTokens | null> {
   return tokens;
 }
 
+/**
+ * Revokes the session's tokens and, when the issuer supports RP-initiated logout, navigates
+ * to its end_session_endpoint. Resolves to false when only the local session was cleared.
+ */
+export async function signOutFromProvider(tokens: StoredTokens | null): Promise<boolean> {
+  if (!tokens) return false;
+  const config = await getAppConfig();
+  if (config.staticMode && config.mockAuth) return false;
+  let provider: IdentityProvider;
+  let metadata: OidcMetadata;
+  try {
+    provider = await getActiveProvider();
+    metadata = await getMetadata();
+  } catch (error) {
+    console.warn('Unable to load OIDC metadata for logout', error);
+    return false;
+  }
+  const clientId = provider.clientId;
+
+  if (metadata.revocation_endpoint) {
+    // Revoking the refresh token also invalidates access tokens from the same grant (RFC 7009 §2.1).
+    const body = new URLSearchParams();
+    body.set('token', tokens.refreshToken ?? tokens.accessToken);
+    body.set('token_type_hint', tokens.refreshToken ? 'refresh_token' : 'access_token');
+    body.set('client_id', clientId);
+    try {
+      await fetch(metadata.revocation_endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body
+      });
+    } catch (error) {
+      console.warn('Token revocation failed', error);
+    }
+  }
+
+  if (!metadata.end_session_endpoint) return false;
+  const logoutUrl = new URL(metadata.end_session_endpoint);
+  if (tokens.idToken) logoutUrl.searchParams.set('id_token_hint', tokens.idToken);
+  logoutUrl.searchParams.set('client_id', clientId);
+  logoutUrl.searchParams.set('post_logout_redirect_uri', provider.redirectUri);
+  window.location.href = logoutUrl.toString();
+  return true;
+}
+
 function storeTokens(tokens: StoredTokens) {
   setStoredTokens(tokens);
 }
 
 async function exchangeAuthCode(meta: OidcMetadata, codeVerifier: string, code: string): Promise<StoredTokens> {
-  const config = await getAppConfig();
-  const clientId = config.oidcClientId ?? 'mock-client';
-  const redirectUri = config.oidcRedirectUri ?? `${window.location.origin}/`;
+  const provider = await getActiveProvider();
   const body = new URLSearchParams();
   body.set('grant_type', 'authorization_code');
-  body.set('client_id', clientId);
+  body.set('client_id', provider.clientId);
   body.set('code', code);
-  body.set('redirect_uri', redirectUri);
+  body.set('redirect_uri', provider.redirectUri);
   body.set('code_verifier', codeVerifier);
 
   const response = await fetch(meta.token_endpoint, {
@@ -193,10 +334,51 @@ async function exchangeAuthCode(meta: OidcMetadata, codeVerifier: string, code:
     body
   });
   if (!response.ok) throw new Error('Token exchange failed');
-  const tokens = await response.json() as { access_token: string; id_token?: string; expires_in?: number };
+  return toStoredTokens(await response.json() as TokenResponse);
+}
+
+/**
+ * Exchanges the stored refresh token for a new access token. Concurrent callers share a
+ * single request: providers that rotate refresh tokens reject a token presented twice.
+ */
+export function refreshAccessToken(): Promise<StoredTokens> {
+  if (refreshInFlight) return refreshInFlight;
+  refreshInFlight = (async () => {
+    const current = getStoredTokens();
+    if (!current?.refreshToken) throw new Error('No refresh token available');
+    const provider = await getActiveProvider();
+    const metadata = await getMetadata();
+    const body = new URLSearchParams();
+    body.set('grant_type', 'refresh_token');
+    body.set('client_id', provider.clientId);
+    body.set('refresh_token', current.refreshToken);
+
+    const response = await fetch(metadata.token_endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body
+    });
+    if (!response.ok) throw new Error('Token refresh failed');
+    const refreshed = toStoredTokens(await response.json() as TokenResponse);
+    // Providers that do not rotate omit refresh_token (and often id_token); keep ours.
+    const tokens: StoredTokens = {
+      ...refreshed,
+      idToken: refreshed.idToken ?? current.idToken,
+      refreshToken: refreshed.refreshToken ?? current.refreshToken
+    };
+    storeTokens(tokens);
+    return tokens;
+  })().finally(() => {
+    refreshInFlight = null;
+  });
+  return refreshInFlight;
+}
+
+function toStoredTokens(tokens: TokenResponse): StoredTokens {
   return {
     accessToken: tokens.access_token,
     idToken: tokens.id_token,
+    refreshToken: tokens.refresh_token,
     expiresAt: tokens.expires_in ? Date.now() + tokens.expires_in * 1000 : undefined
   } satisfies StoredTokens;
 }
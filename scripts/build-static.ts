@@ -4,6 +4,8 @@ import { join } from 'node:path';
 import { fileURLToPath } from 'node:url';
 import { $ } from 'bun';
 import { canonicalQuestionnaire, FI_CANONICAL_URL, FI_VERSION } from '../src/questionnaire';
+import { loadMockPersonas } from '../src/mock_personas';
+import { loadTrustedIssuers, publicIdentityProviders } from '../src/issuers';
 
 function normalizeBasePath(value?: string | null): string {
   if (!value) return '/';
@@ -50,18 +52,21 @@ async function writeConfig() {
   if (!existsSync(distDir)) {
     throw new Error('Expected frontend/dist to exist after build.');
   }
+  const identityProviders = publicIdentityProviders(loadTrustedIssuers());
   const config = {
     fhirBaseUrl: process.env.FHIR_BASE_URL ?? '',
-    oidcIssuer: process.env.OIDC_ISSUER ?? null,
-    oidcClientId: process.env.OIDC_CLIENT_ID ?? null,
-    oidcRedirectUri: process.env.OIDC_REDIRECT_URI ?? null,
+    oidcIssuer: identityProviders[0]?.issuer ?? process.env.OIDC_ISSUER ?? null,
+    oidcClientId: identityProviders[0]?.clientId ?? process.env.OIDC_CLIENT_ID ?? null,
+    oidcRedirectUri: identityProviders[0]?.redirectUri ?? process.env.OIDC_REDIRECT_URI ?? null,
+    identityProviders,
     mockAuth: process.env.MOCK_AUTH === 'true',
     staticMode: true,
     questionnaire: {
       url: FI_CANONICAL_URL,
       version: FI_VERSION
     },
-    questionnaireResource: canonicalQuestionnaire
+    questionnaireResource: canonicalQuestionnaire,
+    mockPersonas: process.env.MOCK_AUTH === 'true' ? loadMockPersonas() : undefined
   } as const;
 
   const configPath = join(distDir, 'config.json');
@@ -1,7 +1,16 @@
-import { createRemoteJWKSet, jwtVerify, type JWTPayload } from 'jose';
-import { env } from './utils';
+import { createRemoteJWKSet, decodeJwt, jwtVerify, type JWTPayload } from 'jose';
+import { findTrustedIssuer, subjectSystemFor, type TrustedIssuer } from './issuers';
+import { isTokenRevoked } from './revocation';
 
+/**
+ * `user` tokens act for a person identified by the issuer's subject claim. `system` tokens
+ * were issued to a client on its own behalf (client_credentials) and are identified by
+ * `client_id` instead.
+ */
 export type AuthenticatedAccessToken = {
+  kind: 'user' | 'system';
+  issuer: string;
+  clientId: string | null;
   subjectSystem: string;
   subjectValue: string;
   display: string | null;
@@ -12,44 +21,64 @@ export type AuthenticatedAccessToken = {
 const jwksCache = new Map<string, ReturnType<typeof createRemoteJWKSet>>();
 const jwksPromiseCache = new Map<string, Promise<ReturnType<typeof createRemoteJWKSet>>>();
 
-function getIssuer() {
-  return process.env.OIDC_ISSUER ?? env('OIDC_ISSUER');
+// How long an unknown `kid` is rejected before the JWKS may be refetched (jose default: 30s).
+function getJwksCooldownMs(trusted: TrustedIssuer) {
+  if (trusted.jwksCooldownMs !== undefined) return trusted.jwksCooldownMs;
+  const raw = process.env.OIDC_JWKS_COOLDOWN_MS;
+  return raw ? Number(raw) : undefined;
 }
 
-function getAudience() {
-  return process.env.OIDC_AUDIENCE ?? env('OIDC_AUDIENCE');
-}
-
-function getExplicitJwksUri() {
-  return process.env.OIDC_JWKS_URI ?? null;
-}
-
-async function resolveJwks(issuer: string) {
+async function resolveJwks(trusted: TrustedIssuer) {
+  const issuer = trusted.issuer;
   if (jwksCache.has(issuer)) return jwksCache.get(issuer)!;
   if (jwksPromiseCache.has(issuer)) return jwksPromiseCache.get(issuer)!;
 
   const promise = (async () => {
-    const url = getExplicitJwksUri() ?? await discoverJwksUri(issuer);
-    const jwks = createRemoteJWKSet(new URL(url));
+    const url = trusted.jwksUri ?? await discoverJwksUri(issuer);
+    const jwks = createRemoteJWKSet(new URL(url), { cooldownDuration: getJwksCooldownMs(trusted) });
     jwksCache.set(issuer, jwks);
     jwksPromiseCache.delete(issuer);
     return jwks;
   })();
+  // A failed discovery must not poison the cache for later requests.
+  promise.catch(() => jwksPromiseCache.delete(issuer));
 
   jwksPromiseCache.set(issuer, promise);
   return promise;
 }
 
 async function discoverJwksUri(issuer: string) {
-  const base = issuer.endsWith('/') ? issuer : `${issuer}/`;
-  const wellKnown = new URL('.well-known/openid-configuration', base).toString();
-  const res = await fetch(wellKnown, { headers: { Accept: 'application/json' } });
-  if (!res.ok) throw new Error(`Failed to retrieve OIDC discovery document (${res.status})`);
-  const json = await res.json() as { jwks_uri?: string };
+  const json = await discoverIssuerMetadata(issuer);
   if (!json.jwks_uri) throw new Error('OIDC discovery document missing jwks_uri');
   return json.jwks_uri;
 }
 
+export type IssuerMetadata = {
+  jwks_uri?: string;
+  authorization_endpoint?: string;
+  token_endpoint?: string;
+  revocation_endpoint?: string;
+  [key: string]: unknown;
+};
+
+const discoveryCache = new Map<string, Promise<IssuerMetadata>>();
+
+/** The issuer's OpenID configuration, fetched once; failures are retried on the next call. */
+export function discoverIssuerMetadata(issuer: string): Promise<IssuerMetadata> {
+  const cached = discoveryCache.get(issuer);
+  if (cached) return cached;
+  const promise = (async () => {
+    const base = issuer.endsWith('/') ? issuer : `${issuer}/`;
+    const wellKnown = new URL('.well-known/openid-configuration', base).toString();
+    const res = await fetch(wellKnown, { headers: { Accept: 'application/json' } });
+    if (!res.ok) throw new Error(`Failed to retrieve OIDC discovery document (${res.status})`);
+    return await res.json() as IssuerMetadata;
+  })();
+  promise.catch(() => discoveryCache.delete(issuer));
+  discoveryCache.set(issuer, promise);
+  return promise;
+}
+
 function parseBearer(header: string | null | undefined) {
   if (!header) return null;
   const match = header.match(/^Bearer\s+(.+)$/i);
@@ -60,17 +89,36 @@ export async function verifyAuthorization(header: string | null | undefined) {
   const token = parseBearer(header);
   if (!token) return null;
 
-  const issuer = getIssuer();
-  const audience = getAudience();
-  const jwks = await resolveJwks(issuer);
-
   try {
-    const { payload } = await jwtVerify(token, jwks, { issuer, audience });
-    if (!payload.sub) throw new Error('JWT missing subject');
+    // The unverified `iss` only selects which trusted issuer's keys and audience apply.
+    const trusted = findTrustedIssuer(decodeJwt(token).iss);
+    if (!trusted) throw new Error('JWT issuer is not trusted');
+    const jwks = await resolveJwks(trusted);
+    const { payload } = await jwtVerify(token, jwks, { issuer: trusted.issuer, audience: trusted.audience });
+    if (isTokenRevoked(payload.jti)) throw new Error('JWT has been revoked');
+    const subject = payload[trusted.subjectClaim];
+    const clientId = typeof payload.client_id === 'string' ? payload.client_id : null;
+    // RFC 9068 §2.2: client_credentials tokens either omit `sub` or set it to the client id.
+    if (clientId && (subject === undefined || subject === clientId)) {
+      return {
+        kind: 'system',
+        issuer: trusted.issuer,
+        clientId,
+        subjectSystem: `${trusted.issuer}#client_id`,
+        subjectValue: clientId,
+        display: typeof payload.client_name === 'string' ? payload.client_name : clientId,
+        payload,
+        token
+      } satisfies AuthenticatedAccessToken;
+    }
+    if (typeof subject !== 'string' || !subject) throw new Error(`JWT missing ${trusted.subjectClaim} claim`);
     return {
-      subjectSystem: `${issuer}#sub`,
-      subjectValue: payload.sub,
-      display: stringifyDisplay(payload),
+      kind: 'user',
+      issuer: trusted.issuer,
+      clientId,
+      subjectSystem: subjectSystemFor(trusted),
+      subjectValue: subject,
+      display: stringifyDisplay(payload, trusted.displayClaims),
       payload,
       token
     } satisfies AuthenticatedAccessToken;
@@ -80,9 +128,10 @@ export async function verifyAuthorization(header: string | null | undefined) {
   }
 }
 
-function stringifyDisplay(payload: JWTPayload): string | null {
-  if (typeof payload.name === 'string') return payload.name;
-  if (typeof payload.preferred_username === 'string') return payload.preferred_username;
-  if (typeof payload.email === 'string') return payload.email;
+function stringifyDisplay(payload: JWTPayload, displayClaims: string[]): string | null {
+  for (const claim of displayClaims) {
+    const value = payload[claim];
+    if (typeof value === 'string' && value.length > 0) return value;
+  }
   return null;
 }
@@ -0,0 +1,117 @@
+import { beforeEach, describe, expect, test } from 'bun:test';
+import { FHIRStore, type FHIRResource } from './db';
+import { processBundle, type BundleEntryRequest } from './bundle';
+import { errorResult, type InteractionResult } from './outcome';
+
+const BASE = 'http://localhost/fhir';
+
+let store: FHIRStore;
+
+beforeEach(() => {
+  store = new FHIRStore(':memory:');
+  store.init();
+});
+
+// A stand-in for the server's interactions: creates and updates go straight to the store,
+// and a status of `fail` is refused the way validation would refuse it.
+function execute(request: BundleEntryRequest): InteractionResult {
+  const [type, id] = request.path;
+  if (request.resource?.status === 'fail') return errorResult(400, 'invalid', 'status may not be fail');
+  if (request.method === 'POST') return { status: 201, resource: store.create(request.resource!) };
+  if (request.method === 'PUT') {
+    const result = store.replace(type, id, request.resource!);
+    return { status: result.created ? 201 : 200, resource: result.resource };
+  }
+  if (request.method === 'GET') {
+    const resource = store.get(type, id);
+    return resource ? { status: 200, resource } : errorResult(404, 'not-found', `${type}/${id} is not known`);
+  }
+  return errorResult(400, 'not-supported', `${request.method} is not supported here`);
+}
+
+const run = (bundle: FHIRResource) => processBundle(bundle, { store, fhirBaseUrl: BASE, execute });
+
+const response = (status: string, extra: Record<string, unknown> = {}) => ({
+  resourceType: 'QuestionnaireResponse',
+  status,
+  questionnaire: 'https://rfi.hl7.org/Questionnaire/annual-submission',
+  ...extra
+});
+
+const count = () => store.search('QuestionnaireResponse', new URLSearchParams()).resources.length;
+
+describe('transaction', () => {
+  test('a failing entry rolls back every earlier write and reports that entry', () => {
+    const result = run({
+      resourceType: 'Bundle',
+      type: 'transaction',
+      entry: [
+        { resource: response('in-progress'), request: { method: 'POST', url: 'QuestionnaireResponse' } },
+        { resource: response('in-progress', { id: 'kept' }), request: { method: 'PUT', url: 'QuestionnaireResponse/kept' } },
+        { resource: response('fail'), request: { method: 'POST', url: 'QuestionnaireResponse' } }
+      ]
+    });
+    expect(result.status).toBe(400);
+    expect(result.resource?.resourceType).toBe('OperationOutcome');
+    expect((result.resource?.issue as { diagnostics: string }[])[0].diagnostics).toStartWith('Bundle.entry[2] (POST QuestionnaireResponse)');
+    expect(count()).toBe(0);
+    expect(store.history('QuestionnaireResponse', null, new URLSearchParams())).toEqual([]);
+  });
+
+  test('commits every entry when all succeed and rewrites urn:uuid references', () => {
+    const result = run({
+      resourceType: 'Bundle',
+      type: 'transaction',
+      entry: [
+        {
+          resource: response('in-progress', { partOf: [{ reference: 'urn:uuid:first' }] }),
+          request: { method: 'PUT', url: 'QuestionnaireResponse/second' }
+        },
+        { fullUrl: 'urn:uuid:first', resource: response('in-progress'), request: { method: 'POST', url: 'QuestionnaireResponse' } }
+      ]
+    });
+    expect(result.status).toBe(200);
+    const entries = result.resource?.entry as { resource: FHIRResource; response: { status: string } }[];
+    expect(entries.map((entry) => entry.response.status)).toEqual(['201 Created', '201 Created']);
+    const firstId = entries[1].resource.id;
+    expect(store.get('QuestionnaireResponse', 'second')?.partOf).toEqual([{ reference: `QuestionnaireResponse/${firstId}` }]);
+    expect(count()).toBe(2);
+  });
+
+  test('refuses two entries that modify the same resource before writing anything', () => {
+    const result = run({
+      resourceType: 'Bundle',
+      type: 'transaction',
+      entry: [
+        { resource: response('in-progress'), request: { method: 'PUT', url: 'QuestionnaireResponse/a' } },
+        { resource: response('stopped'), request: { method: 'PUT', url: 'QuestionnaireResponse/a' } }
+      ]
+    });
+    expect(result.status).toBe(400);
+    expect(count()).toBe(0);
+  });
+});
+
+describe('batch', () => {
+  test('entries succeed or fail independently', () => {
+    const result = run({
+      resourceType: 'Bundle',
+      type: 'batch',
+      entry: [
+        { resource: response('in-progress'), request: { method: 'POST', url: 'QuestionnaireResponse' } },
+        { resource: response('fail'), request: { method: 'POST', url: 'QuestionnaireResponse' } },
+        { request: { method: 'TRACE', url: 'QuestionnaireResponse' } }
+      ]
+    });
+    expect(result.status).toBe(200);
+    const entries = result.resource?.entry as { response: { status: string; outcome?: FHIRResource } }[];
+    expect(entries.map((entry) => entry.response.status)).toEqual(['201 Created', '400 Bad Request', '400 Bad Request']);
+    expect(entries[1].response.outcome?.resourceType).toBe('OperationOutcome');
+    expect(count()).toBe(1);
+  });
+});
+
+test('only transaction and batch Bundles are processed', () => {
+  expect(run({ resourceType: 'Bundle', type: 'collection' }).status).toBe(400);
+  expect(run({ resourceType: 'Parameters' }).status).toBe(400);
+});
@@ -0,0 +1,209 @@
+import { randomUUID } from 'node:crypto';
+import { STATUS_CODES } from 'node:http';
+import type { FHIRResource, FHIRStore } from './db';
+import { errorResult, outcomeResult, type InteractionResult, type OutcomeIssue } from './outcome';
+
+export type BundleMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/** One Bundle entry's request, with `url` relative to the FHIR base and split into path segments. */
+export type BundleEntryRequest = {
+  method: BundleMethod;
+  url: string;
+  path: string[];
+  searchParams: URLSearchParams;
+  fullUrl: string | null;
+  ifMatch: string | null;
+  ifNoneExist: string | null;
+  resource: FHIRResource | null;
+};
+
+export type BundleOptions = {
+  store: FHIRStore;
+  fhirBaseUrl: string;
+  execute: (request: BundleEntryRequest) => InteractionResult;
+};
+
+type RawEntry = {
+  fullUrl?: unknown;
+  resource?: FHIRResource;
+  request?: { method?: unknown; url?: unknown; ifMatch?: unknown; ifNoneExist?: unknown };
+};
+
+// FHIR processes transaction entries in this order regardless of where they appear in the Bundle.
+const METHOD_ORDER: BundleMethod[] = ['DELETE', 'POST', 'PUT', 'PATCH', 'GET'];
+
+// Thrown inside the SQLite transaction to roll it back when an entry fails.
+class TransactionFailure extends Error {
+  constructor(readonly index: number, readonly result: InteractionResult) {
+    super(`Bundle entry ${index} failed with ${result.status}`);
+  }
+}
+
+/**
+ * Runs a `batch` or `transaction` Bundle. Batch entries succeed or fail independently. A
+ * transaction runs every entry inside one SQLite transaction: the first failing entry rolls
+ * back the lot and its OperationOutcome becomes the response. `urn:uuid:` fullUrls of created
+ * resources are replaced by their `Type/id` wherever other entries refer to them; for a
+ * conditional create that found a match, that is the existing resource.
+ */
+export function processBundle(bundle: FHIRResource, options: BundleOptions): InteractionResult {
+  if (bundle.resourceType !== 'Bundle') {
+    return errorResult(400, 'invalid', `Expected a Bundle but received ${bundle.resourceType ?? 'no resourceType'}`);
+  }
+  if (bundle.type !== 'transaction' && bundle.type !== 'batch') {
+    return errorResult(400, 'not-supported', 'Bundle.type must be transaction or batch', { expression: ['Bundle.type'] });
+  }
+  const entries = (Array.isArray(bundle.entry) ? bundle.entry : []) as RawEntry[];
+  const parsed = entries.map((entry, index) => parseEntry(entry, index, options.fhirBaseUrl));
+  if (bundle.type === 'batch') {
+    return runBatch(parsed, options);
+  }
+  const invalid = parsed.find((entry): entry is InteractionResult => 'status' in entry);
+  if (invalid) return invalid;
+  const requests = parsed as BundleEntryRequest[];
+  const duplicate = findDuplicateTarget(requests);
+  if (duplicate) return duplicate;
+  return runTransaction(requests, options);
+}
+
+function runBatch(parsed: (BundleEntryRequest | InteractionResult)[], options: BundleOptions): InteractionResult {
+  const results = parsed.map((entry) => {
+    if ('status' in entry) return entry;
+    try {
+      return options.execute(entry);
+    } catch (error) {
+      console.error(`Batch entry ${entry.method} ${entry.url} failed`, error);
+      return errorResult(500, 'exception', 'The server failed to process this entry');
+    }
+  });
+  return { status: 200, resource: responseBundle('batch-response', results, options.fhirBaseUrl) };
+}
+
+function runTransaction(requests: BundleEntryRequest[], options: BundleOptions): InteractionResult {
+  // Conditional creates run before the other creates so references to them resolve in time.
+  const rank = (request: BundleEntryRequest) =>
+    METHOD_ORDER.indexOf(request.method) * 2 + (request.method === 'POST' && !request.ifNoneExist ? 1 : 0);
+  const order = requests
+    .map((request, index) => ({ request, index }))
+    .sort((a, b) => rank(a.request) - rank(b.request));
+  const assigned = assignUrnIds(requests);
+  try {
+    const results = options.store.transaction(() => {
+      const results: InteractionResult[] = new Array(requests.length);
+      for (const { request, index } of order) {
+        if (request.resource && assigned.size > 0) {
+          request.resource = replaceReferences(request.resource, assigned) as FHIRResource;
+        }
+        const result = options.execute(request);
+        if (result.status >= 400) throw new TransactionFailure(index, result);
+        if (request.fullUrl?.startsWith('urn:uuid:') && request.ifNoneExist && result.resource?.id) {
+          assigned.set(request.fullUrl, `${result.resource.resourceType}/${result.resource.id}`);
+        }
+        results[index] = result;
+      }
+      return results;
+    });
+    return { status: 200, resource: responseBundle('transaction-response', results, options.fhirBaseUrl) };
+  } catch (error) {
+    if (!(error instanceof TransactionFailure)) throw error;
+    const request = requests[error.index];
+    const issues = ((error.result.resource?.issue ?? []) as OutcomeIssue[]).map((issue) => ({
+      ...issue,
+      diagnostics: `Bundle.entry[${error.index}] (${request.method} ${request.url}): ${issue.diagnostics}`,
+      expression: issue.expression?.map((expression) => expression.replace(/^[A-Z][A-Za-z]*/, `Bundle.entry[${error.index}].resource`))
+    }));
+    return outcomeResult(error.result.status, issues, error.result.headers);
+  }
+}
+
+function parseEntry(entry: RawEntry, index: number, fhirBaseUrl: string): BundleEntryRequest | InteractionResult {
+  const method = typeof entry?.request?.method === 'string' ? entry.request.method.toUpperCase() : '';
+  const rawUrl = entry?.request?.url;
+  if (!METHOD_ORDER.includes(method as BundleMethod) || typeof rawUrl !== 'string' || !rawUrl) {
+    return errorResult(400, 'invalid', `Bundle.entry[${index}].request needs a method (GET, POST, PUT, PATCH or DELETE) and a url`, {
+      expression: [`Bundle.entry[${index}].request`]
+    });
+  }
+  const base = fhirBaseUrl.endsWith('/') ? fhirBaseUrl : `${fhirBaseUrl}/`;
+  const relative = rawUrl.startsWith(base) ? rawUrl.slice(base.length) : rawUrl.replace(/^\//, '');
+  const [pathPart, query = ''] = relative.split('?', 2);
+  const resource = entry.resource && typeof entry.resource === 'object' ? { ...entry.resource } : null;
+  return {
+    method: method as BundleMethod,
+    url: relative,
+    path: pathPart.split('/').filter(Boolean),
+    searchParams: new URLSearchParams(query),
+    fullUrl: typeof entry.fullUrl === 'string' ? entry.fullUrl : null,
+    ifMatch: typeof entry.request?.ifMatch === 'string' ? entry.request.ifMatch : null,
+    ifNoneExist: typeof entry.request?.ifNoneExist === 'string' ? entry.request.ifNoneExist : null,
+    resource
+  };
+}
+
+// Two entries acting on the same resource would depend on processing order, which FHIR forbids.
+function findDuplicateTarget(requests: BundleEntryRequest[]): InteractionResult | null {
+  const seen = new Map<string, number>();
+  for (const [index, request] of requests.entries()) {
+    if (request.method === 'GET' || request.method === 'POST' || request.path.length !== 2) continue;
+    const target = request.path.join('/');
+    const earlier = seen.get(target);
+    if (earlier !== undefined) {
+      return errorResult(400, 'invalid', `Bundle.entry[${earlier}] and Bundle.entry[${index}] both modify ${target}`, {
+        expression: [`Bundle.entry[${index}].request.url`]
+      });
+    }
+    seen.set(target, index);
+  }
+  return null;
+}
+
+/**
+ * Ids of plain creates are assigned up front so entries can refer to each other in any order.
+ * Conditional creates are resolved as they run, since they may turn out to match an existing resource.
+ */
+function assignUrnIds(requests: BundleEntryRequest[]): Map<string, string> {
+  const assigned = new Map<string, string>();
+  for (const request of requests) {
+    if (!request.fullUrl?.startsWith('urn:uuid:')) continue;
+    if (request.method === 'POST' && request.resource && !request.ifNoneExist) {
+      request.resource.id = randomUUID().replace(/-/g, '');
+      assigned.set(request.fullUrl, `${request.path[0]}/${request.resource.id}`);
+    } else if (request.method === 'PUT' && request.path.length === 2) {
+      assigned.set(request.fullUrl, request.path.join('/'));
+    }
+  }
+  return assigned;
+}
+
+function replaceReferences(value: unknown, assigned: Map<string, string>): unknown {
+  if (typeof value === 'string') return assigned.get(value) ?? value;
+  if (Array.isArray(value)) return value.map((item) => replaceReferences(item, assigned));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, replaceReferences(item, assigned)]));
+  }
+  return value;
+}
+
+function responseBundle(type: 'batch-response' | 'transaction-response', results: InteractionResult[], fhirBaseUrl: string): FHIRResource {
+  return {
+    resourceType: 'Bundle',
+    type,
+    entry: results.map((result) => {
+      const failed = result.status >= 400;
+      const resource = failed ? undefined : result.resource;
+      const meta = resource?.meta as { versionId?: string; lastUpdated?: string } | undefined;
+      const location = resource?.id && meta?.versionId ? `${resource.resourceType}/${resource.id}/_history/${meta.versionId}` : undefined;
+      return {
+        fullUrl: resource?.id ? `${fhirBaseUrl}/${resource.resourceType}/${resource.id}` : undefined,
+        resource,
+        response: {
+          status: `${result.status} ${STATUS_CODES[result.status] ?? ''}`.trim(),
+          location: result.status === 201 ? location : undefined,
+          etag: result.headers?.get('ETag') ?? undefined,
+          lastModified: meta?.lastUpdated,
+          outcome: failed ? result.resource : undefined
+        }
+      };
+    })
+  };
+}
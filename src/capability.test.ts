@@ -0,0 +1,80 @@
+import { describe, expect, test } from 'bun:test';
+import { buildCapabilityStatement, publishedSearchParameters, type CapabilityOptions } from './capability';
+import type { FHIRResource } from './db';
+
+const options = (overrides: Partial<CapabilityOptions> = {}): CapabilityOptions => ({
+  fhirBaseUrl: 'http://localhost/fhir',
+  routes: [
+    { method: 'GET', path: '/fhir/:type' },
+    { method: 'GET', path: '/fhir/:type/:id' },
+    { method: 'POST', path: '/fhir/:type' },
+    { method: 'PUT', path: '/fhir/:type/:id' }
+  ],
+  resourceTypes: ['Questionnaire'],
+  issuers: [],
+  oauth: null,
+  enforceSmartScopes: true,
+  date: '2025-01-01T00:00:00Z',
+  ...overrides
+});
+
+type ResourceComponent = {
+  type: string;
+  interaction: { code: string }[];
+  readHistory: boolean;
+  conditionalUpdate: boolean;
+  conditionalDelete: string;
+  searchParam: { name: string }[];
+};
+
+const rest = (statement: FHIRResource) =>
+  (statement.rest as { resource: ResourceComponent[]; interaction?: { code: string }[]; security: { extension?: unknown } }[])[0];
+
+describe('buildCapabilityStatement', () => {
+  test('lists only the interactions whose routes are registered, in a fixed order', () => {
+    const [questionnaire] = rest(buildCapabilityStatement(options())).resource;
+    expect(questionnaire.interaction.map((interaction) => interaction.code)).toEqual(['read', 'update', 'create', 'search-type']);
+    expect(questionnaire.readHistory).toBe(false);
+    expect(questionnaire.conditionalUpdate).toBe(false);
+    expect(questionnaire.conditionalDelete).toBe('not-supported');
+    expect(rest(buildCapabilityStatement(options())).interaction).toBeUndefined();
+  });
+
+  test('adds conditional interactions, history and Bundles when their routes exist', () => {
+    const routes = [
+      ...options().routes,
+      { method: 'GET', path: '/fhir/:type/:id/_history/:vid' },
+      { method: 'PUT', path: '/fhir/:type' },
+      { method: 'DELETE', path: '/fhir/:type' },
+      { method: 'POST', path: '/fhir' }
+    ];
+    const component = rest(buildCapabilityStatement(options({ routes })));
+    expect(component.resource[0]).toMatchObject({ readHistory: true, conditionalUpdate: true, conditionalDelete: 'single' });
+    expect(component.interaction).toEqual([{ code: 'transaction' }, { code: 'batch' }]);
+  });
+
+  test('describes the registered search parameters of each type', () => {
+    const [questionnaire] = rest(buildCapabilityStatement(options())).resource;
+    expect(questionnaire.searchParam.map((parameter) => parameter.name)).toContain('url');
+  });
+
+  test('advertises the OAuth endpoints of the default issuer when known', () => {
+    const oauth = { authorization_endpoint: 'http://localhost/authorize', token_endpoint: 'http://localhost/token' };
+    expect(rest(buildCapabilityStatement(options())).security.extension).toBeUndefined();
+    expect(rest(buildCapabilityStatement(options({ oauth }))).security.extension).toEqual([
+      {
+        url: 'http://fhir-registry.smarthealthit.org/StructureDefinition/oauth-uris',
+        extension: [
+          { url: 'authorize', valueUri: 'http://localhost/authorize' },
+          { url: 'token', valueUri: 'http://localhost/token' }
+        ]
+      }
+    ]);
+  });
+});
+
+test('publishedSearchParameters only publishes parameters with an expression', () => {
+  const published = publishedSearchParameters(['QuestionnaireResponse'], '2025-01-01T00:00:00Z');
+  expect(published.length).toBeGreaterThan(0);
+  expect(published.every((parameter) => parameter.resourceType === 'SearchParameter' && parameter.expression)).toBe(true);
+});
@@ -0,0 +1,160 @@
+import type { IssuerMetadata } from './auth';
+import type { FHIRResource } from './db';
+import { searchParameterKeys, searchParametersFor, type SearchParameterDefinition } from './search_registry';
+import type { TrustedIssuer } from './issuers';
+
+export type RegisteredRoute = { method: string; path: string };
+
+export type CapabilityOptions = {
+  fhirBaseUrl: string;
+  routes: RegisteredRoute[];
+  resourceTypes: Iterable<string>;
+  issuers: TrustedIssuer[];
+  // Discovery document of the default (first) issuer, when it could be fetched.
+  oauth: IssuerMetadata | null;
+  enforceSmartScopes: boolean;
+  date: string;
+};
+
+// Route patterns registered on the Elysia app, and the type-level interaction each one serves.
+const TYPE_INTERACTIONS: Record<string, string> = {
+  'GET /fhir/:type/:id': 'read',
+  'GET /fhir/:type/:id/_history/:vid': 'vread',
+  'PUT /fhir/:type/:id': 'update',
+  'PATCH /fhir/:type/:id': 'patch',
+  'DELETE /fhir/:type/:id': 'delete',
+  'GET /fhir/:type/:id/_history': 'history-instance',
+  'GET /fhir/:type/_history': 'history-type',
+  'POST /fhir/:type': 'create',
+  'GET /fhir/:type': 'search-type'
+};
+
+// Routes serving the SearchParameter resources the façade publishes.
+const SEARCH_PARAMETER_INTERACTIONS: Record<string, string> = {
+  'GET /fhir/SearchParameter/:id': 'read',
+  'GET /fhir/SearchParameter': 'search-type'
+};
+
+// Whole-system interactions, keyed the same way.
+const SYSTEM_INTERACTIONS: Record<string, string[]> = {
+  'POST /fhir': ['transaction', 'batch']
+};
+
+const SMART_OAUTH_URIS = 'http://fhir-registry.smarthealthit.org/StructureDefinition/oauth-uris';
+
+/**
+ * Describes what the server actually does: interactions come from the routes registered on
+ * the app and search parameters from the registry the store runs on, so neither can drift from the code.
+ */
+export function buildCapabilityStatement(options: CapabilityOptions): FHIRResource {
+  const interactions = supportedInteractions(options.routes);
+  const systemInteractions = options.routes.flatMap((route) => SYSTEM_INTERACTIONS[routeKey(route)] ?? []);
+  const has = (code: string) => interactions.includes(code);
+  const registered = new Set(options.routes.map(routeKey));
+  const searchParameterInteractions = Object.entries(SEARCH_PARAMETER_INTERACTIONS)
+    .filter(([key]) => registered.has(key))
+    .map(([, code]) => ({ code }));
+  return {
+    resourceType: 'CapabilityStatement',
+    status: 'active',
+    date: options.date,
+    kind: 'instance',
+    software: { name: 'Register of financial interests FHIR façade' },
+    implementation: { description: 'Register of financial interests', url: options.fhirBaseUrl },
+    fhirVersion: '4.0.1',
+    format: ['application/fhir+json', 'json'],
+    rest: [
+      {
+        mode: 'server',
+        security: securityComponent(options),
+        resource: [
+          ...[...options.resourceTypes].map((type) => ({
+            type,
+            interaction: interactions.map((code) => ({ code })),
+            versioning: has('update') ? 'versioned-update' : 'versioned',
+            readHistory: has('vread'),
+            updateCreate: has('update'),
+            // If-None-Exist is handled by the create route itself; the others are routes on the type.
+            conditionalCreate: has('create'),
+            conditionalUpdate: registered.has('PUT /fhir/:type'),
+            conditionalDelete: registered.has('DELETE /fhir/:type') ? 'single' : 'not-supported',
+            searchParam: searchParametersFor(type).map((parameter) => ({
+              name: parameter.name,
+              definition: parameter.definition,
+              type: parameter.type,
+              documentation: parameter.modifiers
+                ? `${parameter.documentation} (use ${searchParameterKeys(parameter).join(' or ')})`
+                : parameter.documentation
+            }))
+          })),
+          // Published definitions of the parameters above; see publishedSearchParameters.
+          ...(searchParameterInteractions.length > 0 ? [{ type: 'SearchParameter', interaction: searchParameterInteractions }] : [])
+        ],
+        interaction: systemInteractions.length > 0 ? systemInteractions.map((code) => ({ code })) : undefined
+      }
+    ]
+  };
+}
+
+/** The façade's own search parameters (those with an `expression`) as SearchParameter resources. */
+export function publishedSearchParameters(resourceTypes: Iterable<string>, date: string): FHIRResource[] {
+  return [...resourceTypes].flatMap((type) =>
+    searchParametersFor(type)
+      .filter((parameter) => parameter.expression)
+      .map((parameter) => searchParameterResource(type, parameter, date))
+  );
+}
+
+function searchParameterResource(type: string, parameter: SearchParameterDefinition, date: string): FHIRResource {
+  return {
+    resourceType: 'SearchParameter',
+    id: parameter.definition.split('/').pop(),
+    url: parameter.definition,
+    name: parameter.name,
+    status: 'active',
+    experimental: false,
+    date,
+    publisher: 'Register of financial interests',
+    description: parameter.documentation,
+    code: parameter.name,
+    base: [type],
+    type: parameter.type,
+    expression: parameter.expression,
+    modifier: parameter.modifiers
+  };
+}
+
+function supportedInteractions(routes: RegisteredRoute[]): string[] {
+  const codes = routes
+    .map((route) => TYPE_INTERACTIONS[routeKey(route)])
+    .filter((code): code is string => Boolean(code));
+  // Keep the order of TYPE_INTERACTIONS rather than registration order.
+  return Object.values(TYPE_INTERACTIONS).filter((code) => codes.includes(code));
+}
+
+function routeKey(route: RegisteredRoute): string {
+  return `${route.method.toUpperCase()} ${route.path}`;
+}
+
+function securityComponent(options: CapabilityOptions) {
+  const issuers = options.issuers.map((issuer) => `${issuer.label} (${issuer.issuer})`).join(', ') || 'none';
+  const scopes = options.enforceSmartScopes
+    ? 'SMART v2 user/ and system/ scopes are enforced.'
+    : 'SMART scopes are not enforced.';
+  const oauthUris = [
+    ['authorize', options.oauth?.authorization_endpoint],
+    ['token', options.oauth?.token_endpoint],
+    ['revoke', options.oauth?.revocation_endpoint]
+  ].filter((entry): entry is [string, string] => typeof entry[1] === 'string');
+  return {
+    extension: oauthUris.length > 0
+      ? [{ url: SMART_OAUTH_URIS, extension: oauthUris.map(([url, valueUri]) => ({ url, valueUri })) }]
+      : undefined,
+    service: [
+      {
+        coding: [{ system: 'http://terminology.hl7.org/CodeSystem/restful-security-service', code: 'SMART-on-FHIR' }]
+      }
+    ],
+    description: `Bearer access tokens from a trusted OpenID Connect issuer: ${issuers}. ${scopes}`
+  };
+}
@@ -1,6 +1,8 @@
 import { Database } from 'bun:sqlite';
 import { readFileSync } from 'node:fs';
 import { randomUUID } from 'node:crypto';
+import { dateCondition, dateRange, parseDateSearch } from './fhir_date';
+import { searchParameterKeys, searchParametersFor, sortParametersFor, SEARCH_PARAMETER_REGISTRY, type SearchParameterDefinition } from './search_registry';
 
 export type FHIRResource = {
   resourceType: string;
@@ -8,11 +10,57 @@ export type FHIRResource = {
   [key: string]: unknown;
 };
 
+/**
+ * `total` is left out when the caller asked for `_total=none`. `next`, `previous` and `last`
+ * are `_cursor` values for the neighbouring pages; `next`/`previous` are absent at either end.
+ */
 export type FHIRSearchResult = {
   resources: FHIRResource[];
-  total: number;
+  total?: number;
   limit: number;
   page: number;
+  next?: string;
+  previous?: string;
+  last?: string;
+};
+
+export type FHIRReplaceResult =
+  | { resource: FHIRResource; created: boolean; conflict?: undefined }
+  | { resource?: undefined; created?: undefined; conflict: { currentVersionId: string | null; otherResourceType?: string } };
+
+export type FHIRHistoryMethod = 'POST' | 'PUT' | 'DELETE';
+
+/** For DELETE entries `resource` is the content as it was deleted and `tombstone` says by whom and why. */
+export type FHIRHistoryEntry = {
+  resource: FHIRResource;
+  versionId: string;
+  method: FHIRHistoryMethod;
+  lastUpdated: string;
+  tombstone?: FHIRTombstone;
+};
+
+export type FHIRTombstone = {
+  versionId: string;
+  deletedAt: string;
+  deletedBy: string;
+  deletedByDisplay: string | null;
+  reason: string | null;
+};
+
+export type FHIRDeletion = {
+  deletedBy: string;
+  deletedByDisplay?: string | null;
+  reason?: string | null;
+};
+
+type VersionRow = { version_id: number; method: FHIRHistoryMethod; last_updated: string; json: string };
+
+type TombstoneRow = {
+  version_id: number;
+  deleted_at: string;
+  deleted_by: string;
+  deleted_by_display: string | null;
+  reason: string | null;
 };
 
 export class FHIRStore {
@@ -26,140 +74,314 @@ export class FHIRStore {
   init() {
     const schema = readFileSync(`${import.meta.dir}/schema.sql`, 'utf-8');
     this.db.exec(schema);
+    this.createSearchIndexes();
+    this.backfillVersions();
+    this.reindex();
+  }
+
+  /** Runs `fn` atomically; the store's own writes nest inside it, and a throw rolls everything back. */
+  transaction<T>(fn: () => T): T {
+    return this.db.transaction(fn)();
   }
 
   create(resource: FHIRResource): FHIRResource {
-    const id = (resource.id && String(resource.id)) || this.generateId();
-    const payload = { ...resource, id };
-    const json = JSON.stringify(payload);
-    const stmt = this.db.prepare(`INSERT INTO resources (id, json) VALUES (?, ?)`);
-    stmt.run(id, json);
-    return payload;
+    const requested = resource.id ? String(resource.id) : null;
+    return this.db.transaction(() => {
+      // A client-supplied id may reuse a deleted resource's id, so continue its version sequence;
+      // one already used by another type is replaced so histories never mix types.
+      const id = requested && !this.otherTypeHolding(resource.resourceType, requested) ? requested : this.generateId();
+      const payload = this.writeVersion({ ...resource, id }, this.latestVersionId(resource.resourceType, id) + 1, 'POST');
+      this.db.prepare(`INSERT INTO resources (id, json) VALUES (?, ?)`).run(id, JSON.stringify(payload));
+      this.indexResource(payload);
+      return payload;
+    })();
+  }
+
+  /**
+   * With `expectedVersionId` (from If-Match) the write only happens if the current version
+   * still matches; otherwise the current version id is reported as a conflict. Ids are unique
+   * across types, so an id held (now or in history) by another type is a conflict as well.
+   */
+  replace(resourceType: string, id: string, resource: FHIRResource, expectedVersionId?: string): FHIRReplaceResult {
+    return this.db.transaction((): FHIRReplaceResult => {
+      const otherResourceType = this.otherTypeHolding(resourceType, id);
+      if (otherResourceType) return { conflict: { currentVersionId: null, otherResourceType } };
+      const exists = this.db
+        .query(`SELECT 1 FROM resources WHERE id = ? AND json_extract(json, '$.resourceType') = ?`)
+        .get(id, resourceType) as { 1: 1 } | undefined;
+      if (expectedVersionId !== undefined) {
+        const currentVersionId = exists ? String(this.latestVersionId(resourceType, id)) : null;
+        if (currentVersionId !== expectedVersionId) return { conflict: { currentVersionId } };
+      }
+      const payload = this.writeVersion({ ...resource, resourceType, id }, this.latestVersionId(resourceType, id) + 1, 'PUT');
+      const json = JSON.stringify(payload);
+      this.indexResource(payload);
+      if (exists) {
+        this.db.prepare(`UPDATE resources SET json = ? WHERE id = ? AND json_extract(json, '$.resourceType') = ?`).run(json, id, resourceType);
+        return { resource: payload, created: false };
+      }
+      this.db.prepare(`INSERT INTO resources (id, json) VALUES (?, ?)`).run(id, json);
+      return { resource: payload, created: true };
+    })();
   }
 
-  replace(resourceType: string, id: string, resource: FHIRResource): { resource: FHIRResource; created: boolean } {
-    const payload = { ...resource, resourceType, id } as FHIRResource;
-    const json = JSON.stringify(payload);
-    const exists = this.db.query(`SELECT 1 FROM resources WHERE id = ?`).get(id) as { 1: 1 } | undefined;
-    if (exists) {
-      const stmt = this.db.prepare(`UPDATE resources SET json = ? WHERE id = ?`);
-      stmt.run(json, id);
-      return { resource: payload, created: false };
+  /** A specific version of a resource (`vread`), or null if it never existed. */
+  getVersion(resourceType: string, id: string, versionId: string): FHIRHistoryEntry | null {
+    const row = this.db
+      .query(`SELECT version_id, method, last_updated, json FROM resource_versions WHERE id = ? AND version_id = ? AND resource_type = ?`)
+      .get(id, Number(versionId), resourceType) as VersionRow | undefined;
+    return row ? this.toHistoryEntry(resourceType, id, row) : null;
+  }
+
+  /**
+   * Records a DELETE version and a tombstone, and drops the resource from `resources` so
+   * reads and searches no longer see it. Returns null if there is no current resource.
+   */
+  delete(resourceType: string, id: string, deletion: FHIRDeletion): FHIRHistoryEntry | null {
+    return this.db.transaction(() => {
+      const current = this.get(resourceType, id);
+      if (!current) return null;
+      const versionId = this.latestVersionId(resourceType, id) + 1;
+      const payload = this.writeVersion(current, versionId, 'DELETE');
+      const meta = payload.meta as { lastUpdated: string };
+      this.db
+        .prepare(`INSERT INTO tombstones (id, version_id, resource_type, deleted_at, deleted_by, deleted_by_display, reason) VALUES (?, ?, ?, ?, ?, ?, ?)`)
+        .run(id, versionId, resourceType, meta.lastUpdated, deletion.deletedBy, deletion.deletedByDisplay ?? null, deletion.reason ?? null);
+      this.db.prepare(`DELETE FROM resources WHERE id = ? AND json_extract(json, '$.resourceType') = ?`).run(id, resourceType);
+      this.db.prepare(`DELETE FROM string_index WHERE resource_id = ?`).run(id);
+      this.db.prepare(`DELETE FROM date_index WHERE resource_id = ?`).run(id);
+      return this.getVersion(resourceType, id, String(versionId));
+    })();
+  }
+
+  /** The DELETE entry if the resource's latest version is a deletion, otherwise null. */
+  getDeleted(resourceType: string, id: string): FHIRHistoryEntry | null {
+    const row = this.db.query(`
+      SELECT version_id, method, last_updated, json FROM resource_versions
+      WHERE id = ? AND resource_type = ?
+      ORDER BY version_id DESC LIMIT 1
+    `).get(id, resourceType) as VersionRow | undefined;
+    return row?.method === 'DELETE' ? this.toHistoryEntry(resourceType, id, row) : null;
+  }
+
+  /**
+   * Versions newest first, for one resource (`id`) or a whole type. `_since` keeps versions
+   * written at or after the given instant.
+   */
+  history(resourceType: string, id: string | null, params: URLSearchParams): FHIRHistoryEntry[] {
+    const where = ['resource_type = ?'];
+    const args: any[] = [resourceType];
+    if (id) {
+      where.push('id = ?');
+      args.push(id);
     }
-    const stmt = this.db.prepare(`INSERT INTO resources (id, json) VALUES (?, ?)`);
-    stmt.run(id, json);
-    return { resource: payload, created: true };
+    const since = params.get('_since');
+    if (since) {
+      where.push('last_updated >= ?');
+      args.push(new Date(since).toISOString());
+    }
+    const rows = this.db.prepare(`
+      SELECT id, version_id, method, last_updated, json FROM resource_versions
+      WHERE ${where.join(' AND ')}
+      ORDER BY last_updated DESC, version_id DESC
+    `).all(...args) as (VersionRow & { id: string })[];
+    return rows.map((row) => this.toHistoryEntry(resourceType, row.id, row));
   }
 
   get(resourceType: string, id: string): FHIRResource | null {
-    const row = this.db.query(`SELECT json FROM resources WHERE id = ?`).get(id) as { json: string } | undefined;
-    if (!row) return null;
-    const parsed = JSON.parse(row.json) as FHIRResource;
-    if (parsed.resourceType !== resourceType) return null;
-    return parsed;
+    const row = this.db
+      .query(`SELECT json FROM resources WHERE id = ? AND json_extract(json, '$.resourceType') = ?`)
+      .get(id, resourceType) as { json: string } | undefined;
+    return row ? (JSON.parse(row.json) as FHIRResource) : null;
   }
 
   search(resourceType: string, params: URLSearchParams): FHIRSearchResult {
     const where = [`json_extract(json, '$.resourceType') = ?`];
     const args: any[] = [resourceType];
 
-    const status = params.get('status');
-    if (status) {
-      where.push(`json_extract(json, '$.status') = ?`);
-      args.push(status);
+    for (const parameter of searchParametersFor(resourceType)) {
+      for (const key of searchParameterKeys(parameter)) {
+        const values = params.getAll(key).filter(Boolean);
+        if (values.length > 0) applyParameter(parameter, values, key.slice(parameter.name.length + 1) || undefined, where, args);
+      }
     }
 
-    if (resourceType === 'Questionnaire') {
-      const url = params.get('url');
-      if (url) {
-        where.push(`json_extract(json, '$.url') = ?`);
-        args.push(url);
-      }
-      const version = params.get('version');
-      if (version) {
-        where.push(`json_extract(json, '$.version') = ?`);
-        args.push(version);
-      }
-      const idFilter = params.get('_id');
-      if (idFilter) {
-        where.push(`id = ?`);
-        args.push(idFilter);
+    const limit = clampCount(params.get('_count'));
+    const page = clampPage(params.get('_page'));
+    const sort = normalizedSort(params.get('_sort'));
+    const terms = sortTerms(resourceType, sort);
+    // A cursor replaces `_page`: it names the row the page starts after (or ends before).
+    const cursor = decodeCursor(params.get('_cursor'), sort, terms.length);
+    const backward = cursor?.direction === 'previous';
+    const offset = cursor ? 0 : (page - 1) * limit;
+
+    const whereSql = where.join(' AND ');
+    // `_summary=count` wants nothing but the total; `_total=none` wants anything but.
+    const countOnly = params.get('_summary') === 'count';
+    const skipTotal = !countOnly && params.get('_total') === 'none';
+
+    const keyset = cursor?.key ? keysetCondition(terms, cursor.key, backward) : null;
+    const keyColumns = terms.map((term, index) => `${term.expression} AS k${index}`).join(', ');
+    const order = terms.map((term) => `${term.expression} ${term.descending !== backward ? 'DESC' : 'ASC'}`).join(', ');
+    // One row beyond the page tells whether there is another page in the direction of travel.
+    const rows = countOnly
+      ? []
+      : this.db.prepare(`
+          SELECT json, ${keyColumns} FROM resources
+          WHERE ${whereSql}${keyset ? ` AND (${keyset.sql})` : ''}
+          ORDER BY ${order}
+          LIMIT ? OFFSET ?
+        `).all(...([...args, ...(keyset?.args ?? []), limit + 1, offset] as any[])) as ({ json: string } & Record<string, SortValue>)[];
+    const totalRow = skipTotal
+      ? undefined
+      : this.db.prepare(`
+          SELECT COUNT(*) as cnt FROM resources
+          WHERE ${whereSql}
+        `).get(...(args as any[])) as { cnt: number } | undefined;
+    const more = rows.length > limit;
+    const pageRows = rows.slice(0, limit);
+    if (backward) pageRows.reverse();
+    const keyOf = (row: Record<string, SortValue>) => terms.map((_term, index) => row[`k${index}`]);
+    const first = pageRows[0];
+    const last = pageRows[pageRows.length - 1];
+    const hasNext = backward ? Boolean(cursor?.key) : more;
+    const hasPrevious = backward ? more : Boolean(cursor) || offset > 0;
+
+    return {
+      resources: pageRows.map((row) => JSON.parse(row.json) as FHIRResource),
+      total: skipTotal ? undefined : totalRow?.cnt ?? 0,
+      limit,
+      page,
+      next: hasNext && last ? encodeCursor({ direction: 'next', sort, key: keyOf(last) }) : undefined,
+      previous: hasPrevious && first ? encodeCursor({ direction: 'previous', sort, key: keyOf(first) }) : undefined,
+      last: countOnly ? undefined : encodeCursor({ direction: 'previous', sort })
+    };
+  }
+
+  // Stamps meta.versionId/lastUpdated and appends the immutable version row.
+  private writeVersion(resource: FHIRResource, versionId: number, method: FHIRHistoryMethod): FHIRResource {
+    const lastUpdated = new Date().toISOString();
+    const meta = (resource.meta && typeof resource.meta === 'object' ? resource.meta : {}) as Record<string, unknown>;
+    const payload = { ...resource, meta: { ...meta, versionId: String(versionId), lastUpdated } } as FHIRResource;
+    this.db
+      .prepare(`INSERT INTO resource_versions (id, version_id, resource_type, method, last_updated, json) VALUES (?, ?, ?, ?, ?, ?)`)
+      .run(payload.id!, versionId, payload.resourceType, method, lastUpdated, JSON.stringify(payload));
+    return payload;
+  }
+
+  private toHistoryEntry(resourceType: string, id: string, row: VersionRow): FHIRHistoryEntry {
+    const entry: FHIRHistoryEntry = {
+      resource: JSON.parse(row.json) as FHIRResource,
+      versionId: String(row.version_id),
+      method: row.method,
+      lastUpdated: row.last_updated
+    };
+    if (row.method === 'DELETE') {
+      const tombstone = this.db
+        .query(`SELECT version_id, deleted_at, deleted_by, deleted_by_display, reason FROM tombstones WHERE id = ? AND version_id = ? AND resource_type = ?`)
+        .get(id, row.version_id, resourceType) as TombstoneRow | undefined;
+      if (tombstone) {
+        entry.tombstone = {
+          versionId: String(tombstone.version_id),
+          deletedAt: tombstone.deleted_at,
+          deletedBy: tombstone.deleted_by,
+          deletedByDisplay: tombstone.deleted_by_display,
+          reason: tombstone.reason
+        };
       }
     }
+    return entry;
+  }
 
-    if (resourceType === 'QuestionnaireResponse') {
-      const subjectIdentifiers = params.getAll('subject:identifier');
-      if (subjectIdentifiers.length > 0) {
-        const clauses: string[] = [];
-        for (const raw of subjectIdentifiers) {
-          if (!raw) continue;
-          const parts = raw.split('|');
-          let system: string | null = null;
-          let value: string | null = null;
-          if (parts.length > 1) {
-            system = parts[0] || null;
-            value = parts.slice(1).join('|') || null;
-          } else {
-            value = raw;
-          }
-          if (system) {
-            clauses.push(`(json_extract(json, '$.subject.identifier.system') = ? AND json_extract(json, '$.subject.identifier.value') = ?)`);
-            args.push(system, value ?? '');
-          } else {
-            clauses.push(`json_extract(json, '$.subject.identifier.value') = ?`);
-            args.push(value ?? '');
-          }
-        }
-        if (clauses.length > 0) {
-          where.push(`(${clauses.join(' OR ')})`);
-        }
-      }
+  // The type of another resource, current or deleted, that already uses this id.
+  private otherTypeHolding(resourceType: string, id: string): string | null {
+    const rows = this.db.query(`
+      SELECT json_extract(json, '$.resourceType') AS resource_type FROM resources WHERE id = ?
+      UNION ALL
+      SELECT resource_type FROM resource_versions WHERE id = ?
+    `).all(id, id) as { resource_type: string }[];
+    return rows.find((candidate) => candidate.resource_type !== resourceType)?.resource_type ?? null;
+  }
 
-      const questionnaire = params.get('questionnaire');
-      if (questionnaire) {
-        if (questionnaire.includes('|')) {
-          where.push(`json_extract(json, '$.questionnaire') = ?`);
-          args.push(questionnaire);
-        } else {
-          where.push(`(json_extract(json, '$.questionnaire') = ? OR json_extract(json, '$.questionnaire') LIKE ? || '|%')`);
-          args.push(questionnaire, questionnaire);
-        }
+  private latestVersionId(resourceType: string, id: string): number {
+    const row = this.db
+      .query(`SELECT MAX(version_id) as latest FROM resource_versions WHERE id = ? AND resource_type = ?`)
+      .get(id, resourceType) as { latest: number | null } | undefined;
+    return row?.latest ?? 0;
+  }
+
+  // Databases written before versioning hold bare rows; record each as version 1.
+  private backfillVersions() {
+    const rows = this.db.query(`
+      SELECT id, json FROM resources
+      WHERE NOT EXISTS (
+        SELECT 1 FROM resource_versions
+        WHERE resource_versions.id = resources.id AND resource_type = json_extract(resources.json, '$.resourceType')
+      )
+    `).all() as { id: string; json: string }[];
+    if (rows.length === 0) return;
+    this.db.transaction(() => {
+      for (const row of rows) {
+        const payload = this.writeVersion(JSON.parse(row.json) as FHIRResource, 1, 'POST');
+        this.db.prepare(`UPDATE resources SET json = ? WHERE id = ?`).run(JSON.stringify(payload), row.id);
       }
+    })();
+  }
 
-      const authoredFilters = params.getAll('authored');
-      for (const raw of authoredFilters) {
-        if (!raw) continue;
-        const { op, value } = parseDatePrefix(raw);
-        where.push(`json_extract(json, '$.authored') ${op} ?`);
-        args.push(value);
+  // Replaces the string_index and date_index rows of one resource.
+  private indexResource(resource: FHIRResource) {
+    const id = String(resource.id);
+    this.db.prepare(`DELETE FROM string_index WHERE resource_id = ?`).run(id);
+    this.db.prepare(`DELETE FROM date_index WHERE resource_id = ?`).run(id);
+    const insertString = this.db.prepare(`INSERT INTO string_index (resource_id, param, value, normalized) VALUES (?, ?, ?, ?)`);
+    const insertDate = this.db.prepare(`INSERT INTO date_index (resource_id, param, low, high) VALUES (?, ?, ?, ?)`);
+    for (const parameter of searchParametersFor(resource.resourceType)) {
+      if (parameter.type === 'string') {
+        for (const value of stringValues(resource, parameter)) {
+          insertString.run(id, indexKey(parameter), value, normalizeString(value));
+        }
+      } else if (parameter.type === 'date' && parameter.path) {
+        for (const value of valuesAt(resource, parameter.path)) {
+          const range = typeof value === 'string' ? dateRange(value) : null;
+          if (range) insertDate.run(id, indexKey(parameter), range.low, range.high);
+        }
       }
     }
+  }
 
-    const limit = clampCount(params.get('_count'));
-    const page = clampPage(params.get('_page'));
-    const offset = (page - 1) * limit;
-
-    const whereSql = where.join(' AND ');
-    const dataStmt = this.db.prepare(`
-      SELECT json FROM resources
-      WHERE ${whereSql}
-      LIMIT ? OFFSET ?
-    `);
-    const totalStmt = this.db.prepare(`
-      SELECT COUNT(*) as cnt FROM resources
-      WHERE ${whereSql}
-    `);
-
-    const rows = dataStmt.all(...([...args, limit, offset] as any[])) as { json: string }[];
-    const totalRow = totalStmt.get(...(args as any[])) as { cnt: number } | undefined;
-    const resources = rows.map((row) => JSON.parse(row.json) as FHIRResource);
+  // Rebuilt on every start, so a newly registered parameter covers the resources already stored.
+  private reindex() {
+    const rows = this.db.query(`SELECT json FROM resources`).all() as { json: string }[];
+    this.db.transaction(() => {
+      this.db.exec(`DELETE FROM string_index`);
+      this.db.exec(`DELETE FROM date_index`);
+      for (const row of rows) this.indexResource(JSON.parse(row.json) as FHIRResource);
+    })();
+  }
 
-    return {
-      resources,
-      total: totalRow?.cnt ?? 0,
-      limit,
-      page
-    };
+  /**
+   * One expression index per registered token, uri or reference path (two for `:identifier`
+   * references), led by the resource type every search filters on; string and date parameters
+   * search their own tables. Indexes of parameters no longer registered are dropped.
+   */
+  private createSearchIndexes() {
+    const wanted = new Map<string, string>();
+    for (const parameter of SEARCH_PARAMETER_REGISTRY) {
+      if (!parameter.path || parameter.path === 'id' || parameter.type === 'string' || parameter.type === 'date') continue;
+      const columns = parameter.type === 'reference' && parameter.modifiers?.includes('identifier')
+        ? [`${parameter.path}.identifier.system`, `${parameter.path}.identifier.value`]
+        : [parameter.path];
+      const name = `idx_search_${parameter.resourceType}_${parameter.name}`.replace(/[^A-Za-z0-9_]/g, '_');
+      wanted.set(name, `
+        CREATE INDEX IF NOT EXISTS ${name}
+          ON resources (json_extract(json, '$.resourceType'), ${columns.map((column) => `json_extract(json, '$.${column}')`).join(', ')})
+      `);
+    }
+    const existing = this.db.query(`SELECT name FROM sqlite_master WHERE type = 'index' AND name LIKE 'idx_search_%'`).all() as { name: string }[];
+    for (const { name } of existing) {
+      if (!wanted.has(name)) this.db.exec(`DROP INDEX ${name}`);
+    }
+    for (const sql of wanted.values()) this.db.exec(sql);
   }
 
   private generateId(): string {
@@ -167,6 +389,293 @@ export class FHIRStore {
   }
 }
 
+type AnswerItem = { linkId?: string; answer?: { valueString?: unknown }[]; item?: AnswerItem[] };
+
+// The SQL value a registered path refers to.
+function columnExpression(path: string): string {
+  return path === 'id' ? 'id' : `json_extract(json, '$.${path}')`;
+}
+
+// How string_index and date_index rows name the parameter they belong to.
+function indexKey(parameter: SearchParameterDefinition): string {
+  return `${parameter.resourceType}.${parameter.name}`;
+}
+
+/**
+ * Appends the conditions for one form of a registered parameter (`modifier` undefined for the
+ * bare name), given the non-empty values supplied for it. As in FHIR, repeating a parameter
+ * requires every repetition to match and comma-separated values (`\,` for a literal comma) are ORed.
+ */
+function applyParameter(parameter: SearchParameterDefinition, values: string[], modifier: string | undefined, where: string[], args: any[]) {
+  if (modifier === 'missing') {
+    const present = presenceCondition(parameter, args);
+    where.push(values[values.length - 1] === 'true' ? `NOT ${present}` : present);
+    return;
+  }
+  for (const raw of values) {
+    const alternatives = splitAlternatives(raw);
+    if (alternatives.length === 0) continue;
+    const matches = `(${alternatives.map((value) => valueCondition(parameter, value, modifier, args)).join(' OR ')})`;
+    // Resources without the element have no code to exclude, so `:not` keeps them.
+    where.push(modifier === 'not' ? `NOT COALESCE(${matches}, 0)` : matches);
+  }
+}
+
+function valueCondition(parameter: SearchParameterDefinition, value: string, modifier: string | undefined, args: any[]): string {
+  switch (parameter.type) {
+    case 'string': {
+      args.push(indexKey(parameter));
+      return `id IN (SELECT resource_id FROM string_index WHERE param = ? AND ${stringCondition(value, modifier, args)})`;
+    }
+    case 'date': {
+      // searchControlError reports unreadable dates; here they simply match nothing.
+      const search = parseDateSearch(value);
+      if (!search) return '0';
+      const condition = dateCondition(search);
+      args.push(indexKey(parameter), ...condition.args);
+      return `id IN (SELECT resource_id FROM date_index WHERE param = ? AND ${condition.sql})`;
+    }
+    case 'token':
+      return tokenCondition(parameter, value, args);
+    case 'uri':
+      args.push(value);
+      return `${columnExpression(parameter.path as string)} = ?`;
+    case 'reference':
+      return modifier === 'identifier'
+        ? identifierCondition(parameter.path as string, value, args)
+        : canonicalCondition(columnExpression(parameter.path as string), value, args);
+  }
+}
+
+function presenceCondition(parameter: SearchParameterDefinition, args: any[]): string {
+  if (parameter.type === 'string' || parameter.type === 'date') {
+    args.push(indexKey(parameter));
+    return `id IN (SELECT resource_id FROM ${parameter.type}_index WHERE param = ?)`;
+  }
+  return parameter.path === 'id' ? '1' : `json_type(json, '$.${parameter.path}') IS NOT NULL`;
+}
+
+/**
+ * `code` matches in any system, `system|code` only when the element's code system (the
+ * registry's `system`) is that one, `|code` only when it has none, and `system|` any code of
+ * the system.
+ */
+function tokenCondition(parameter: SearchParameterDefinition, raw: string, args: any[]): string {
+  const column = columnExpression(parameter.path as string);
+  const bar = raw.indexOf('|');
+  const system = bar >= 0 ? raw.slice(0, bar) : undefined;
+  const code = bar >= 0 ? raw.slice(bar + 1) : raw;
+  if (system !== undefined && system !== (parameter.system ?? '')) return '0';
+  if (!code) return `${column} IS NOT NULL`;
+  args.push(code);
+  // JSON booleans read back as 1 and 0, so `true` and `false` also match by JSON type.
+  if ((code === 'true' || code === 'false') && parameter.path !== 'id') {
+    args.push(code);
+    return `(${column} = ? OR json_type(json, '$.${parameter.path}') = ?)`;
+  }
+  return `${column} = ?`;
+}
+
+// `[system|]value` against `{path}.identifier`.
+function identifierCondition(path: string, raw: string, args: any[]): string {
+  const parts = raw.split('|');
+  const system = parts.length > 1 ? parts[0] || null : null;
+  const value = parts.length > 1 ? parts.slice(1).join('|') : raw;
+  if (system) {
+    args.push(system, value);
+    return `(json_extract(json, '$.${path}.identifier.system') = ? AND json_extract(json, '$.${path}.identifier.value') = ?)`;
+  }
+  args.push(value);
+  return `json_extract(json, '$.${path}.identifier.value') = ?`;
+}
+
+// A canonical reference; without a `|version` every version matches.
+function canonicalCondition(column: string, canonical: string, args: any[]): string {
+  if (canonical.includes('|')) {
+    args.push(canonical);
+    return `${column} = ?`;
+  }
+  args.push(canonical, canonical);
+  return `(${column} = ? OR ${column} LIKE ? || '|%')`;
+}
+
+/**
+ * Like any FHIR string parameter the bare form is a case- and accent-insensitive prefix
+ * match, `:contains` matches anywhere and `:exact` matches the whole value as written.
+ */
+function stringCondition(value: string, modifier: string | undefined, args: any[]): string {
+  if (modifier === 'exact') {
+    args.push(value);
+    return 'value = ?';
+  }
+  const normalized = normalizeString(value);
+  if (modifier === 'contains') {
+    args.push(`%${escapeLike(normalized)}%`);
+    return `normalized LIKE ? ESCAPE '\\'`;
+  }
+  // Prefix match as a range, so the (param, normalized) index applies.
+  args.push(normalized, `${normalized}\uffff`);
+  return '(normalized >= ? AND normalized < ?)';
+}
+
+function splitAlternatives(raw: string): string[] {
+  return raw.split(/(?<!\\),/).map((value) => value.replace(/\\,/g, ',')).filter(Boolean);
+}
+
+const TOTAL_MODES = ['none', 'estimate', 'accurate'];
+
+/**
+ * Reports a `_sort`, `_total` or `_cursor` the store cannot honour, or a date or `:missing`
+ * value it cannot read; search() itself ignores them.
+ */
+export function searchControlError(resourceType: string, params: URLSearchParams): string | null {
+  for (const parameter of searchParametersFor(resourceType)) {
+    for (const key of searchParameterKeys(parameter)) {
+      for (const raw of params.getAll(key).filter(Boolean)) {
+        if (key.endsWith(':missing')) {
+          if (raw !== 'true' && raw !== 'false') return `${key} must be true or false`;
+        } else if (parameter.type === 'date') {
+          const invalid = splitAlternatives(raw).find((value) => !parseDateSearch(value));
+          if (invalid) return `${key}=${invalid} is not a FHIR date, optionally prefixed by eq, ne, gt, lt, ge, le, sa, eb or ap`;
+        }
+      }
+    }
+  }
+  const supported = sortParametersFor(resourceType).map((parameter) => parameter.name);
+  for (const key of sortKeys(params.get('_sort'))) {
+    if (!supported.includes(key.replace(/^-/, ''))) {
+      return `Cannot sort ${resourceType} by ${key.replace(/^-/, '')}; supported: ${supported.join(', ') || 'none'}`;
+    }
+  }
+  const total = params.get('_total');
+  if (total && !TOTAL_MODES.includes(total)) {
+    return `_total must be one of ${TOTAL_MODES.join(', ')}`;
+  }
+  const cursor = params.get('_cursor');
+  if (cursor) {
+    const sort = normalizedSort(params.get('_sort'));
+    if (!decodeCursor(cursor, sort, sortTerms(resourceType, sort).length)) {
+      return '_cursor does not belong to this search; follow the Bundle links or start again without it';
+    }
+  }
+  return null;
+}
+
+function sortKeys(raw: string | null): string[] {
+  return (raw ?? '').split(',').map((key) => key.trim()).filter(Boolean);
+}
+
+function normalizedSort(raw: string | null): string {
+  return sortKeys(raw).join(',');
+}
+
+type SortTerm = { expression: string; descending: boolean };
+
+/**
+ * What a sort expression yields: text, or a number for numeric and boolean JSON values (SQLite
+ * reads `true` as 1). Cursors keep the type, since SQLite orders every number before any text.
+ */
+type SortValue = string | number;
+
+/**
+ * Without `_sort`, results come oldest change first, so filings submitted while a client pages
+ * through land after its cursor. Rows that tie on every key fall back to id order. Missing
+ * values compare as '' so the keyset comparison sees the same order as ORDER BY.
+ */
+function sortTerms(resourceType: string, sort: string): SortTerm[] {
+  const keys = sort ? sortKeys(sort) : ['_lastUpdated'];
+  const terms = keys.flatMap((key) => {
+    const descending = key.startsWith('-');
+    const parameter = sortParametersFor(resourceType).find((candidate) => candidate.name === (descending ? key.slice(1) : key));
+    return parameter ? [{ expression: `COALESCE(${sortExpression(parameter)}, '')`, descending }] : [];
+  });
+  return [...terms, { expression: 'id', descending: false }];
+}
+
+// Milliseconds from 0000-01-01T00:00:00Z to the Unix epoch.
+const YEAR_ZERO_OFFSET_MS = 62_167_219_200_000;
+
+/**
+ * Dates sort by the start of their earliest value in date_index, zero-padded from year 0 so the
+ * text compares like the instant and time zones do not disturb the order. Version ids are
+ * stored as text but sort as numbers, so version 10 comes after version 9.
+ */
+function sortExpression(parameter: SearchParameterDefinition): string {
+  if (parameter.path === 'meta.versionId') return `CAST(${columnExpression(parameter.path)} AS INTEGER)`;
+  if (parameter.type !== 'date') return columnExpression(parameter.path as string);
+  return `(SELECT printf('%016d', MIN(low) + ${YEAR_ZERO_OFFSET_MS}) FROM date_index WHERE resource_id = resources.id AND param = '${indexKey(parameter)}')`;
+}
+
+// Rows strictly after `key` in sort order, or strictly before it when paging backward.
+function keysetCondition(terms: SortTerm[], key: SortValue[], backward: boolean): { sql: string; args: SortValue[] } {
+  const clauses: string[] = [];
+  const args: SortValue[] = [];
+  terms.forEach((term, index) => {
+    const equal = terms.slice(0, index).map((previous) => `${previous.expression} = ?`);
+    const operator = term.descending !== backward ? '<' : '>';
+    clauses.push(`(${[...equal, `${term.expression} ${operator} ?`].join(' AND ')})`);
+    args.push(...key.slice(0, index + 1));
+  });
+  return { sql: clauses.join(' OR '), args };
+}
+
+// `previous` without a key means the last page.
+type SearchCursor = { direction: 'next' | 'previous'; sort: string; key?: SortValue[] };
+
+function encodeCursor(cursor: SearchCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+// null unless the cursor was issued for the same `_sort`, since its key only makes sense in that order.
+function decodeCursor(raw: string | null, sort: string, keyLength: number): SearchCursor | null {
+  if (!raw) return null;
+  try {
+    const cursor = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8')) as SearchCursor;
+    if (cursor.direction !== 'next' && cursor.direction !== 'previous') return null;
+    if (cursor.sort !== sort) return null;
+    if (cursor.key === undefined) return cursor.direction === 'previous' ? cursor : null;
+    const valid = Array.isArray(cursor.key)
+      && cursor.key.length === keyLength
+      && cursor.key.every((value) => typeof value === 'string' || (typeof value === 'number' && Number.isFinite(value)));
+    return valid ? cursor : null;
+  } catch {
+    return null;
+  }
+}
+
+// Non-empty string values of a string parameter: the answers to its item, or the strings at its path.
+function stringValues(resource: FHIRResource, parameter: SearchParameterDefinition): string[] {
+  const values = parameter.linkId
+    ? answersTo((resource.item ?? []) as AnswerItem[], parameter.linkId)
+    : valuesAt(resource, parameter.path as string);
+  return values.filter((value): value is string => typeof value === 'string' && value.trim() !== '').map((value) => value.trim());
+}
+
+function answersTo(items: AnswerItem[], linkId: string): unknown[] {
+  return items.flatMap((item) => [
+    ...(item.linkId === linkId ? (item.answer ?? []).map((answer) => answer.valueString) : []),
+    ...answersTo(item.item ?? [], linkId)
+  ]);
+}
+
+// Everything at a dotted path, stepping into every element of the arrays along the way.
+function valuesAt(value: unknown, path: string): unknown[] {
+  return path.split('.').reduce<unknown[]>(
+    (current, key) => current
+      .flatMap((entry) => (entry && typeof entry === 'object' ? [(entry as Record<string, unknown>)[key]] : []))
+      .flatMap((entry) => (Array.isArray(entry) ? entry : entry === undefined || entry === null ? [] : [entry])),
+    [value]
+  );
+}
+
+function normalizeString(value: string): string {
+  return value.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
 function clampCount(raw: string | null): number {
   const parsed = raw ? Number(raw) : NaN;
   if (!Number.isFinite(parsed)) return 50;
@@ -178,18 +687,3 @@ function clampPage(raw: string | null): number {
   if (!Number.isFinite(parsed) || parsed < 1) return 1;
   return Math.floor(parsed);
 }
-
-function parseDatePrefix(raw: string): { op: string; value: string } {
-  const prefixes: Record<string, string> = {
-    ge: '>=',
-    gt: '>',
-    le: '<=',
-    lt: '<'
-  };
-  const prefix = raw.slice(0, 2);
-  const op = prefixes[prefix];
-  if (op) {
-    return { op, value: raw.slice(2) };
-  }
-  return { op: '=', value: raw };
-}
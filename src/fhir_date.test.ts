@@ -0,0 +1,83 @@
+import { describe, expect, test } from 'bun:test';
+import { Database } from 'bun:sqlite';
+import { dateCondition, dateRange, parseDateSearch } from './fhir_date';
+
+const utc = (iso: string) => Date.parse(iso);
+
+describe('dateRange', () => {
+  test('spans the precision the value was written in', () => {
+    expect(dateRange('2025')).toEqual({ low: utc('2025-01-01T00:00:00Z'), high: utc('2026-01-01T00:00:00Z') });
+    expect(dateRange('2024-02')).toEqual({ low: utc('2024-02-01T00:00:00Z'), high: utc('2024-03-01T00:00:00Z') });
+    expect(dateRange('2025-03-01')).toEqual({ low: utc('2025-03-01T00:00:00Z'), high: utc('2025-03-02T00:00:00Z') });
+    expect(dateRange('2025-03-01T10:00Z')).toEqual({ low: utc('2025-03-01T10:00:00Z'), high: utc('2025-03-01T10:01:00Z') });
+    expect(dateRange('2025-03-01T10:00:05Z')).toEqual({ low: utc('2025-03-01T10:00:05Z'), high: utc('2025-03-01T10:00:06Z') });
+    expect(dateRange('2025-03-01T10:00:05.250Z')).toEqual({ low: utc('2025-03-01T10:00:05.250Z'), high: utc('2025-03-01T10:00:05.251Z') });
+  });
+
+  test('applies offsets and treats times without one as UTC', () => {
+    expect(dateRange('2025-03-01T10:00:00+05:00')?.low).toBe(utc('2025-03-01T05:00:00Z'));
+    expect(dateRange('2025-03-01T10:00:00-02:30')?.low).toBe(utc('2025-03-01T12:30:00Z'));
+    expect(dateRange('2025-03-01T10:00:00')?.low).toBe(utc('2025-03-01T10:00:00Z'));
+  });
+
+  test('rejects malformed and impossible dates', () => {
+    for (const value of ['2025-02-30', '2025-13', '2025-03-01T24:00Z', '25-03-01', 'yesterday', '']) {
+      expect(dateRange(value)).toBeNull();
+    }
+  });
+});
+
+describe('parseDateSearch', () => {
+  test('reads the prefix, defaulting to eq', () => {
+    expect(parseDateSearch('ge2025-01')?.prefix).toBe('ge');
+    expect(parseDateSearch('2025-01')).toEqual({ prefix: 'eq', range: dateRange('2025-01')! });
+    expect(parseDateSearch('xx2025')).toBeNull();
+    expect(parseDateSearch('ge2025-02-30')).toBeNull();
+  });
+});
+
+describe('dateCondition', () => {
+  // Stored values: a day in February, the whole of March and an instant on 15 March.
+  const db = new Database(':memory:');
+  db.run('CREATE TABLE dates (name TEXT, low INTEGER, high INTEGER)');
+  const stored: Record<string, string> = { february: '2025-02-10', march: '2025-03', instant: '2025-03-15T12:00:00Z' };
+  for (const [name, value] of Object.entries(stored)) {
+    const range = dateRange(value)!;
+    db.run('INSERT INTO dates VALUES (?, ?, ?)', [name, range.low, range.high]);
+  }
+  const matches = (search: string, now?: number) => {
+    const condition = dateCondition(parseDateSearch(search)!, now);
+    return (db.query(`SELECT name FROM dates WHERE ${condition.sql} ORDER BY low, high`).all(...condition.args) as { name: string }[])
+      .map((row) => row.name);
+  };
+
+  test('eq and ne compare whole ranges', () => {
+    expect(matches('eq2025-03')).toEqual(['march', 'instant']);
+    expect(matches('2025-03-15')).toEqual(['instant']);
+    expect(matches('ne2025-03')).toEqual(['february']);
+  });
+
+  test('gt and lt match ranges that extend beyond the search range', () => {
+    expect(matches('gt2025-03-14')).toEqual(['march', 'instant']);
+    expect(matches('lt2025-03-01')).toEqual(['february']);
+    expect(matches('lt2025-03-16')).toEqual(['february', 'march', 'instant']);
+  });
+
+  test('ge and le also match ranges inside the search range', () => {
+    expect(matches('ge2025-03')).toEqual(['march', 'instant']);
+    expect(matches('le2025-02')).toEqual(['february']);
+  });
+
+  test('sa and eb need the range to lie wholly after or before', () => {
+    expect(matches('sa2025-02-28')).toEqual(['march', 'instant']);
+    expect(matches('sa2025-03-01')).toEqual(['instant']);
+    expect(matches('eb2025-03-01')).toEqual(['february']);
+  });
+
+  test('ap widens the search by a tenth of its distance from now', () => {
+    const now = utc('2025-03-25T00:00:00Z');
+    expect(matches('ap2025-03-16', now)).toEqual(['march', 'instant']);
+    expect(matches('ap2025-02-12', now)).toEqual(['february']);
+    expect(matches('ap2025-02-20', now)).toEqual([]);
+  });
+});
@@ -0,0 +1,82 @@
+/** A FHIR date, dateTime or instant as the span of time it denotes: [low, high) in epoch milliseconds. */
+export type DateRange = { low: number; high: number };
+
+export type DatePrefix = 'eq' | 'ne' | 'gt' | 'lt' | 'ge' | 'le' | 'sa' | 'eb' | 'ap';
+
+export type DateSearch = { prefix: DatePrefix; range: DateRange };
+
+const PREFIXES: DatePrefix[] = ['eq', 'ne', 'gt', 'lt', 'ge', 'le', 'sa', 'eb', 'ap'];
+
+const DATE_PATTERN = /^(\d{4})(?:-(\d{2})(?:-(\d{2})(?:T(\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,9}))?)?(Z|[+-]\d{2}:\d{2})?)?)?)?$/;
+
+/**
+ * The range a value covers at the precision it was written in: `2025` is the whole year,
+ * `2025-03-01T10:00Z` one minute. Times without an offset are taken as UTC. null if the value
+ * is not a FHIR date, dateTime or instant.
+ */
+export function dateRange(value: string): DateRange | null {
+  const match = value.trim().match(DATE_PATTERN);
+  if (!match) return null;
+  const [, year, month, day, hour, minute, second, fraction, zone] = match;
+  const parts = [Number(year), Number(month ?? 1) - 1, Number(day ?? 1), Number(hour ?? 0), Number(minute ?? 0), Number(second ?? 0)];
+  const utc = Date.UTC(parts[0], parts[1], parts[2], parts[3], parts[4], parts[5]);
+  // Date.UTC rolls over out-of-range fields (e.g. 2025-02-30), so a round trip catches them.
+  const check = new Date(utc);
+  if (check.getUTCMonth() !== parts[1] || check.getUTCDate() !== parts[2] || parts[3] > 23 || parts[4] > 59 || parts[5] > 59) {
+    return null;
+  }
+  const low = utc + (fraction ? Math.floor(Number(`0.${fraction}`) * 1000) : 0) - offsetMinutes(zone) * 60_000;
+  if (second !== undefined) return { low, high: low + (fraction ? 1 : 1000) };
+  if (minute !== undefined) return { low, high: low + 60_000 };
+  if (day !== undefined) return { low, high: low + 86_400_000 };
+  if (month !== undefined) return { low, high: Date.UTC(parts[0], parts[1] + 1, 1) };
+  return { low, high: Date.UTC(parts[0] + 1, 0, 1) };
+}
+
+// `ge2025-01`, or `2025-01` for eq. null if either part is malformed.
+export function parseDateSearch(raw: string): DateSearch | null {
+  const candidate = raw.slice(0, 2) as DatePrefix;
+  const prefix = PREFIXES.includes(candidate) ? candidate : 'eq';
+  const range = dateRange(prefix === candidate ? raw.slice(2) : raw);
+  return range ? { prefix, range } : null;
+}
+
+/**
+ * SQL matching a stored range (`low`/`high` columns) against a search, following the FHIR
+ * definitions: `eq` when the search range contains the stored one, `gt`/`lt` when the stored
+ * range extends beyond it, `ge`/`le` either, `sa`/`eb` when it lies wholly after or before,
+ * and `ap` when it overlaps the search range widened by a tenth of its distance from now.
+ */
+export function dateCondition(search: DateSearch, now = Date.now()): { sql: string; args: number[] } {
+  const { low, high } = search.range;
+  const within = '(low >= ? AND high <= ?)';
+  switch (search.prefix) {
+    case 'eq':
+      return { sql: within, args: [low, high] };
+    case 'ne':
+      return { sql: `NOT ${within}`, args: [low, high] };
+    case 'gt':
+      return { sql: 'high > ?', args: [high] };
+    case 'lt':
+      return { sql: 'low < ?', args: [low] };
+    case 'ge':
+      return { sql: `(high > ? OR ${within})`, args: [high, low, high] };
+    case 'le':
+      return { sql: `(low < ? OR ${within})`, args: [low, low, high] };
+    case 'sa':
+      return { sql: 'low >= ?', args: [high] };
+    case 'eb':
+      return { sql: 'high <= ?', args: [low] };
+    case 'ap': {
+      const margin = Math.round(Math.abs(now - low) * 0.1);
+      return { sql: '(low < ? AND high > ?)', args: [high + margin, low - margin] };
+    }
+  }
+}
+
+function offsetMinutes(zone: string | undefined): number {
+  if (!zone || zone === 'Z') return 0;
+  const sign = zone.startsWith('-') ? -1 : 1;
+  const [hours, minutes] = zone.slice(1).split(':').map(Number);
+  return sign * (hours * 60 + minutes);
+}
@@ -0,0 +1,143 @@
+import { existsSync, readFileSync } from 'node:fs';
+
+export type TrustedIssuer = {
+  id: string;
+  label: string;
+  issuer: string;
+  audience: string;
+  clientId: string;
+  redirectUri: string | null;
+  jwksUri: string | null;
+  jwksCooldownMs?: number;
+  subjectClaim: string;
+  displayClaims: string[];
+};
+
+// The subset of an issuer's settings the SPA needs to start a login and recognise its own identity.
+export type PublicIdentityProvider = {
+  id: string;
+  label: string;
+  issuer: string;
+  clientId: string;
+  redirectUri: string | null;
+  subjectSystem: string;
+  subjectClaim: string;
+  displayClaims: string[];
+};
+
+const DEFAULT_DISPLAY_CLAIMS = ['name', 'preferred_username', 'email'];
+
+let configured: TrustedIssuer[] | null = null;
+
+/**
+ * Subjects are always qualified by their issuer (and the claim they came from) so that the
+ * same `sub` minted by two identity providers never maps to the same filer.
+ */
+export function subjectSystemFor(issuer: TrustedIssuer): string {
+  return `${issuer.issuer}#${issuer.subjectClaim}`;
+}
+
+export function trustedIssuers(): TrustedIssuer[] {
+  if (!configured) configured = loadTrustedIssuers();
+  return configured;
+}
+
+export function findTrustedIssuer(iss: unknown): TrustedIssuer | undefined {
+  if (typeof iss !== 'string') return undefined;
+  return trustedIssuers().find((entry) => entry.issuer === iss);
+}
+
+/** Adds an issuer ahead of the configured ones, e.g. the in-process mock provider. */
+export function registerTrustedIssuer(issuer: TrustedIssuer) {
+  const next = [issuer, ...trustedIssuers()];
+  assertDistinctIssuers(next);
+  configured = next;
+}
+
+export function publicIdentityProviders(issuers = trustedIssuers()): PublicIdentityProvider[] {
+  return issuers.map((issuer) => ({
+    id: issuer.id,
+    label: issuer.label,
+    issuer: issuer.issuer,
+    clientId: issuer.clientId,
+    redirectUri: issuer.redirectUri,
+    subjectSystem: subjectSystemFor(issuer),
+    subjectClaim: issuer.subjectClaim,
+    displayClaims: issuer.displayClaims
+  }));
+}
+
+/**
+ * Issuers come from `OIDC_ISSUERS`, which may hold either a JSON array or the path of a JSON
+ * file containing one. Without it the single-issuer `OIDC_*` variables are used, unless
+ * `MOCK_AUTH=true`, where those variables are placeholders for the mock provider.
+ */
+export function loadTrustedIssuers(source = process.env.OIDC_ISSUERS): TrustedIssuer[] {
+  if (!source) {
+    if (process.env.MOCK_AUTH === 'true' || !process.env.OIDC_ISSUER) return [];
+    return [legacyIssuer(process.env.OIDC_ISSUER)];
+  }
+  const raw = source.trim().startsWith('[') ? source : readIssuerFile(source);
+  const parsed = JSON.parse(raw) as unknown;
+  if (!Array.isArray(parsed)) throw new Error('OIDC_ISSUERS must be a JSON array');
+  const issuers = parsed.map((entry, index) => parseIssuer(entry, index));
+  assertDistinctIssuers(issuers);
+  return issuers;
+}
+
+function legacyIssuer(issuer: string): TrustedIssuer {
+  const clientId = process.env.OIDC_CLIENT_ID ?? process.env.OIDC_AUDIENCE ?? '';
+  return {
+    id: 'default',
+    label: process.env.OIDC_LABEL ?? 'HL7 account',
+    issuer,
+    audience: process.env.OIDC_AUDIENCE ?? clientId,
+    clientId,
+    redirectUri: process.env.OIDC_REDIRECT_URI ?? null,
+    jwksUri: process.env.OIDC_JWKS_URI ?? null,
+    subjectClaim: 'sub',
+    displayClaims: DEFAULT_DISPLAY_CLAIMS
+  };
+}
+
+function parseIssuer(entry: unknown, index: number): TrustedIssuer {
+  const value = (entry ?? {}) as Record<string, unknown>;
+  const issuer = optionalString(value.issuer);
+  const clientId = optionalString(value.clientId) ?? optionalString(value.audience);
+  if (!issuer || !clientId) {
+    throw new Error(`OIDC_ISSUERS[${index}] needs an issuer and a clientId or audience`);
+  }
+  const displayClaims = Array.isArray(value.displayClaims)
+    ? value.displayClaims.filter((claim): claim is string => typeof claim === 'string' && claim.length > 0)
+    : DEFAULT_DISPLAY_CLAIMS;
+  return {
+    id: optionalString(value.id) ?? `issuer-${index + 1}`,
+    label: optionalString(value.label) ?? issuer,
+    issuer,
+    audience: optionalString(value.audience) ?? clientId,
+    clientId,
+    redirectUri: optionalString(value.redirectUri) ?? null,
+    jwksUri: optionalString(value.jwksUri) ?? null,
+    jwksCooldownMs: typeof value.jwksCooldownMs === 'number' ? value.jwksCooldownMs : undefined,
+    subjectClaim: optionalString(value.subjectClaim) ?? 'sub',
+    displayClaims
+  };
+}
+
+function assertDistinctIssuers(issuers: TrustedIssuer[]) {
+  const seen = new Set<string>();
+  for (const issuer of issuers) {
+    if (seen.has(issuer.issuer) || seen.has(issuer.id)) throw new Error(`Duplicate trusted issuer: ${issuer.id} (${issuer.issuer})`);
+    seen.add(issuer.issuer);
+    seen.add(issuer.id);
+  }
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.length > 0 ? value : undefined;
+}
+
+function readIssuerFile(path: string) {
+  if (!existsSync(path)) throw new Error(`OIDC_ISSUERS file not found: ${path}`);
+  return readFileSync(path, 'utf-8');
+}
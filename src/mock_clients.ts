@@ -0,0 +1,55 @@
+import { existsSync, readFileSync } from 'node:fs';
+import type { JWK } from 'jose';
+
+/**
+ * A confidential client registered with the mock provider for the `client_credentials`
+ * grant. It authenticates with `clientSecret` (basic or post) or, when `jwks` is set,
+ * with a `private_key_jwt` client assertion signed by one of those keys.
+ */
+export type MockClient = {
+  clientId: string;
+  label: string;
+  clientSecret?: string;
+  jwks?: JWK[];
+  scope: string;
+};
+
+export const DEFAULT_MOCK_CLIENTS: MockClient[] = [
+  {
+    clientId: 'membership-sync',
+    label: 'Membership sync',
+    clientSecret: 'membership-sync-secret',
+    scope: 'system/Questionnaire.rs system/QuestionnaireResponse.rs'
+  }
+];
+
+/**
+ * Clients come from `MOCK_OIDC_CLIENTS`, which may hold either a JSON array or the path of
+ * a JSON file containing one. Without it the built-in sync client is registered.
+ */
+export function loadMockClients(source = process.env.MOCK_OIDC_CLIENTS): MockClient[] {
+  if (!source) return DEFAULT_MOCK_CLIENTS;
+  const raw = source.trim().startsWith('[') ? source : readClientFile(source);
+  const parsed = JSON.parse(raw) as unknown;
+  if (!Array.isArray(parsed)) throw new Error('MOCK_OIDC_CLIENTS must be a JSON array');
+  return parsed.map((entry, index) => {
+    const client = (entry ?? {}) as Partial<MockClient>;
+    const hasSecret = typeof client.clientSecret === 'string' && client.clientSecret.length > 0;
+    const hasKeys = Array.isArray(client.jwks) && client.jwks.length > 0;
+    if (typeof client.clientId !== 'string' || !client.clientId || (!hasSecret && !hasKeys)) {
+      throw new Error(`MOCK_OIDC_CLIENTS[${index}] needs a clientId and a clientSecret or jwks`);
+    }
+    return {
+      clientId: client.clientId,
+      label: typeof client.label === 'string' ? client.label : client.clientId,
+      clientSecret: hasSecret ? client.clientSecret : undefined,
+      jwks: hasKeys ? client.jwks : undefined,
+      scope: typeof client.scope === 'string' ? client.scope : ''
+    };
+  });
+}
+
+function readClientFile(path: string) {
+  if (!existsSync(path)) throw new Error(`MOCK_OIDC_CLIENTS file not found: ${path}`);
+  return readFileSync(path, 'utf-8');
+}
@@ -0,0 +1,110 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { createPrivateKey, generateKeyPairSync, randomUUID, type KeyObject } from 'node:crypto';
+import type { JWK } from 'jose';
+
+export type SigningAlg = 'RS256' | 'ES256';
+
+type StoredKey = {
+  kid: string;
+  alg: SigningAlg;
+  privateJwk: JWK;
+  publicJwk: JWK;
+  createdAt: string;
+  retiresAt?: string;
+};
+
+type KeyFile = {
+  activeKid: string;
+  keys: StoredKey[];
+};
+
+export type ActiveSigningKey = {
+  kid: string;
+  alg: SigningAlg;
+  privateKey: KeyObject;
+};
+
+/**
+ * Signing keys for the mock OIDC provider. With a path the key set survives restarts, so
+ * outstanding tokens stay valid. Rotation keeps retired keys in the JWKS for a grace window
+ * so tokens signed before the rotation still verify.
+ */
+export class MockSigningKeys {
+  private file: KeyFile;
+  private privateKeys = new Map<string, KeyObject>();
+
+  constructor(private path: string | null, defaultAlg: SigningAlg = 'RS256', private graceSeconds = 3600) {
+    this.file = this.load() ?? { activeKid: '', keys: [] };
+    const active = this.file.keys.find((key) => key.kid === this.file.activeKid);
+    if (!active || active.alg !== defaultAlg) {
+      this.rotate(defaultAlg);
+    }
+  }
+
+  get active(): ActiveSigningKey {
+    const key = this.file.keys.find((entry) => entry.kid === this.file.activeKid);
+    if (!key) throw new Error('Mock OIDC has no active signing key');
+    return { kid: key.kid, alg: key.alg, privateKey: this.privateKeyFor(key) };
+  }
+
+  publicJwks(): JWK[] {
+    this.pruneRetired();
+    return this.file.keys.map((key) => key.publicJwk);
+  }
+
+  rotate(alg: SigningAlg = this.active.alg): StoredKey {
+    const retiresAt = new Date(Date.now() + this.graceSeconds * 1000).toISOString();
+    for (const key of this.file.keys) {
+      if (!key.retiresAt) key.retiresAt = retiresAt;
+    }
+    const created = generateKey(alg);
+    this.file.keys.push(created);
+    this.file.activeKid = created.kid;
+    this.pruneRetired();
+    this.save();
+    return created;
+  }
+
+  private privateKeyFor(key: StoredKey): KeyObject {
+    const cached = this.privateKeys.get(key.kid);
+    if (cached) return cached;
+    const privateKey = createPrivateKey({ key: key.privateJwk as JsonWebKey, format: 'jwk' });
+    this.privateKeys.set(key.kid, privateKey);
+    return privateKey;
+  }
+
+  private pruneRetired() {
+    const now = Date.now();
+    const before = this.file.keys.length;
+    this.file.keys = this.file.keys.filter((key) => !key.retiresAt || Date.parse(key.retiresAt) > now);
+    if (this.file.keys.length !== before) this.save();
+  }
+
+  private load(): KeyFile | null {
+    if (!this.path || !existsSync(this.path)) return null;
+    try {
+      const parsed = JSON.parse(readFileSync(this.path, 'utf-8')) as KeyFile;
+      return Array.isArray(parsed.keys) ? parsed : null;
+    } catch (error) {
+      console.warn(`Ignoring unreadable mock OIDC key file ${this.path}`, error);
+      return null;
+    }
+  }
+
+  private save() {
+    if (!this.path) return;
+    mkdirSync(dirname(this.path), { recursive: true });
+    writeFileSync(this.path, JSON.stringify(this.file, null, 2), { mode: 0o600 });
+  }
+}
+
+function generateKey(alg: SigningAlg): StoredKey {
+  const { privateKey, publicKey } = alg === 'ES256'
+    ? generateKeyPairSync('ec', { namedCurve: 'P-256' })
+    : generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const kid = randomUUID();
+  const publicJwk = { ...(publicKey.export({ format: 'jwk' }) as JWK), use: 'sig', alg, kid };
+  const privateJwk = { ...(privateKey.export({ format: 'jwk' }) as JWK), alg, kid };
+  return { kid, alg, privateJwk, publicJwk, createdAt: new Date().toISOString() };
+}
@@ -0,0 +1,105 @@
+import { afterEach, describe, expect, setSystemTime, test } from 'bun:test';
+import { createHash } from 'node:crypto';
+import { Elysia } from 'elysia';
+import { registerMockOidc } from './mock_oidc';
+
+const ISSUER = 'http://localhost/mock-oidc';
+const REDIRECT_URI = 'http://localhost/';
+const VERIFIER = 'pkce-verifier-0123456789-abcdefghijklmnopqrstuvwxyz';
+
+const app = new Elysia();
+registerMockOidc(app, { basePath: '/mock-oidc', issuer: ISSUER, defaultClientId: 'mock-client', keyStorePath: null });
+
+function s256(verifier: string) {
+  return createHash('sha256').update(verifier).digest('base64url');
+}
+
+async function authorize(challenge: string | null, method?: 'S256' | 'plain'): Promise<string> {
+  const params = new URLSearchParams({
+    redirect_uri: REDIRECT_URI,
+    client_id: 'mock-client',
+    state: 'xyz',
+    mock_jwk_claims: Buffer.from(JSON.stringify({ sub: 'alice' })).toString('base64url')
+  });
+  if (challenge) params.set('code_challenge', challenge);
+  if (method) params.set('code_challenge_method', method);
+  const response = await app.handle(new Request(`${ISSUER}/authorize?${params}`));
+  expect(response.status).toBe(302);
+  const location = new URL(response.headers.get('location')!);
+  expect(location.searchParams.get('state')).toBe('xyz');
+  return location.searchParams.get('code')!;
+}
+
+async function exchange(code: string, fields: Record<string, string> = {}) {
+  const form = new URLSearchParams({ grant_type: 'authorization_code', code, redirect_uri: REDIRECT_URI, client_id: 'mock-client', ...fields });
+  const response = await app.handle(new Request(`${ISSUER}/token`, { method: 'POST', body: form }));
+  return { status: response.status, body: (await response.json()) as Record<string, string> };
+}
+
+afterEach(() => setSystemTime());
+
+describe('authorization code with PKCE', () => {
+  test('S256 accepts the matching verifier once', async () => {
+    const code = await authorize(s256(VERIFIER), 'S256');
+    const first = await exchange(code, { code_verifier: VERIFIER });
+    expect(first.status).toBe(200);
+    expect(first.body.access_token).toBeString();
+    expect(first.body.refresh_token).toBeString();
+    const replay = await exchange(code, { code_verifier: VERIFIER });
+    expect(replay.body.error).toBe('invalid_grant');
+  });
+
+  test('S256 rejects a verifier that does not hash to the challenge', async () => {
+    const code = await authorize(s256(VERIFIER), 'S256');
+    const result = await exchange(code, { code_verifier: `${VERIFIER}-other` });
+    expect(result.status).toBe(400);
+    expect(result.body.error).toBe('invalid_grant');
+    expect(result.body.error_description).toContain('does not match');
+  });
+
+  test('S256 rejects the challenge itself sent as the verifier', async () => {
+    const challenge = s256(VERIFIER);
+    const code = await authorize(challenge, 'S256');
+    expect((await exchange(code, { code_verifier: challenge })).body.error).toBe('invalid_grant');
+  });
+
+  test('plain compares the verifier with the challenge', async () => {
+    const accepted = await authorize(VERIFIER, 'plain');
+    expect((await exchange(accepted, { code_verifier: VERIFIER })).status).toBe(200);
+    const rejected = await authorize(VERIFIER, 'plain');
+    expect((await exchange(rejected, { code_verifier: `${VERIFIER}x` })).body.error).toBe('invalid_grant');
+  });
+
+  test('a code issued with a challenge needs a verifier', async () => {
+    const code = await authorize(s256(VERIFIER), 'S256');
+    const result = await exchange(code);
+    expect(result.body.error).toBe('invalid_grant');
+    expect(result.body.error_description).toContain('code_verifier is required');
+  });
+
+  test('verifiers outside RFC 7636 length and characters are refused', async () => {
+    const short = 'too-short';
+    const code = await authorize(short, 'plain');
+    expect((await exchange(code, { code_verifier: short })).body.error).toBe('invalid_grant');
+  });
+
+  test('unknown challenge methods are refused at the authorization endpoint', async () => {
+    const params = new URLSearchParams({ redirect_uri: REDIRECT_URI, code_challenge: 'abc', code_challenge_method: 'S512' });
+    const response = await app.handle(new Request(`${ISSUER}/authorize?${params}`));
+    expect(response.status).toBe(400);
+  });
+
+  test('codes expire after 60 seconds', async () => {
+    const code = await authorize(s256(VERIFIER), 'S256');
+    setSystemTime(new Date(Date.now() + 61_000));
+    const result = await exchange(code, { code_verifier: VERIFIER });
+    expect(result.body.error).toBe('invalid_grant');
+    expect(result.body.error_description).toContain('expired');
+  });
+
+  test('the redirect_uri must match the authorization request', async () => {
+    const code = await authorize(s256(VERIFIER), 'S256');
+    const result = await exchange(code, { code_verifier: VERIFIER, redirect_uri: 'http://localhost/elsewhere' });
+    expect(result.body.error).toBe('invalid_grant');
+  });
+});
@@ -1,33 +1,80 @@
 import { Elysia } from 'elysia';
-import { randomUUID, generateKeyPairSync } from 'node:crypto';
-import { SignJWT, type JWK } from 'jose';
+import { randomUUID, createHash, timingSafeEqual } from 'node:crypto';
+import { SignJWT, jwtVerify, createLocalJWKSet, decodeJwt, type JWTPayload } from 'jose';
+import { isTokenRevoked, persistRevocationsAt, revokeTokenId } from './revocation';
+import { DEFAULT_MOCK_PERSONAS, type MockPersona } from './mock_personas';
+import { DEFAULT_MOCK_CLIENTS, type MockClient } from './mock_clients';
+import { MockSigningKeys, type SigningAlg } from './mock_keys';
+import { rolesForClaims } from './policy';
 
 export type MockOidcOptions = {
   basePath: string;
   issuer: string;
   defaultClientId: string;
+  accessTokenTtlSeconds?: number;
+  personas?: MockPersona[];
+  clients?: MockClient[];
+  keyStorePath?: string | null;
+  revocationStorePath?: string | null;
+  signingAlg?: SigningAlg;
+  keyGraceSeconds?: number;
 };
 
+type CodeChallengeMethod = 'S256' | 'plain';
+
 type StoredAuthCode = {
   claims: Record<string, unknown>;
   clientId: string;
   scope: string | null;
+  redirectUri: string;
+  codeChallenge: string | null;
+  codeChallengeMethod: CodeChallengeMethod;
+  expiresAt: number;
+};
+
+type StoredRefreshToken = {
+  claims: Record<string, unknown>;
+  clientId: string;
+  scope: string;
+  familyId: string;
+  used: boolean;
+  expiresAt: number;
 };
 
+const AUTH_CODE_TTL_MS = 60_000;
+const REFRESH_TOKEN_TTL_MS = 12 * 60 * 60 * 1000;
+
+const CLIENT_ASSERTION_TYPE = 'urn:ietf:params:oauth:client-assertion-type:jwt-bearer';
+
 const authCodes = new Map<string, StoredAuthCode>();
+const refreshTokens = new Map<string, StoredRefreshToken>();
+// Access tokens issued per login (`sid`), so revoking a grant can revoke its access tokens.
+const issuedAccessTokens = new Map<string, { familyId: string; exp: number }>();
+// `jti`s of accepted private_key_jwt client assertions, kept until they expire to block replay.
+const usedClientAssertions = new Map<string, number>();
 
-const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
-const publicJwk = publicKey.export({ format: 'jwk' }) as JWK;
-publicJwk.use = 'sig';
-publicJwk.alg = 'RS256';
-publicJwk.kid = publicJwk.kid ?? randomUUID();
+// JWT registered claims that are not user profile information.
+const NON_PROFILE_CLAIMS = new Set(['iss', 'aud', 'iat', 'exp', 'nbf', 'jti', 'sid', 'scope']);
 
 export function registerMockOidc(app: Elysia, options: MockOidcOptions) {
   const basePath = normalizeBasePath(options.basePath);
   const issuer = options.issuer;
+  const accessTokenTtl = options.accessTokenTtlSeconds ?? 3600;
+  const personas = options.personas ?? DEFAULT_MOCK_PERSONAS;
+  const clients = options.clients ?? DEFAULT_MOCK_CLIENTS;
+  const signingKeys = new MockSigningKeys(
+    options.keyStorePath ?? null,
+    options.signingAlg ?? 'RS256',
+    options.keyGraceSeconds ?? accessTokenTtl
+  );
+  persistRevocationsAt(options.revocationStorePath ?? null);
   const authorizationEndpoint = `${basePath}/authorize`;
   const tokenEndpoint = `${basePath}/token`;
   const jwksEndpoint = `${basePath}/jwks`;
+  const userInfoEndpoint = `${basePath}/userinfo`;
+  const revocationEndpoint = `${basePath}/revoke`;
+  const endSessionEndpoint = `${basePath}/logout`;
+  const rotateKeysEndpoint = `${basePath}/admin/rotate-keys`;
   const discoveryEndpoint = `${basePath}/.well-known/openid-configuration`;
 
   app.get(discoveryEndpoint, () =>
@@ -36,86 +83,392 @@ export function registerMockOidc(app: Elysia, options: MockOidcOptions) {
       authorization_endpoint: `${issuer}/authorize`,
       token_endpoint: `${issuer}/token`,
       jwks_uri: `${issuer}/jwks`,
+      userinfo_endpoint: `${issuer}/userinfo`,
+      revocation_endpoint: `${issuer}/revoke`,
+      end_session_endpoint: `${issuer}/logout`,
       response_types_supported: ['code'],
       subject_types_supported: ['public'],
-      id_token_signing_alg_values_supported: ['RS256'],
-      scopes_supported: ['openid', 'profile', 'email'],
-      token_endpoint_auth_methods_supported: ['client_secret_post', 'none']
+      id_token_signing_alg_values_supported: ['RS256', 'ES256'],
+      scopes_supported: [
+        'openid',
+        'profile',
+        'email',
+        'offline_access',
+        'user/Questionnaire.rs',
+        'user/QuestionnaireResponse.cruds',
+        'system/Questionnaire.rs',
+        'system/QuestionnaireResponse.rs'
+      ],
+      token_endpoint_auth_methods_supported: ['none', 'client_secret_basic', 'client_secret_post', 'private_key_jwt'],
+      token_endpoint_auth_signing_alg_values_supported: ['RS256', 'ES256'],
+      grant_types_supported: ['authorization_code', 'refresh_token', 'client_credentials'],
+      code_challenge_methods_supported: ['S256', 'plain'],
+      revocation_endpoint_auth_methods_supported: ['none'],
+      claims_supported: ['sub', 'name', 'preferred_username', 'email', 'roles', 'groups', 'sid']
     })
   );
 
-  app.get(jwksEndpoint, () => json({ keys: [publicJwk] }));
+  app.get(jwksEndpoint, () => json({ keys: signingKeys.publicJwks() }));
 
-  app.get(authorizationEndpoint, ({ request }) => {
-    const url = new URL(request.url);
-    const redirectUri = url.searchParams.get('redirect_uri');
+  // Starts signing with a fresh key; the previous keys stay in /jwks until their grace window ends.
+  app.post(rotateKeysEndpoint, async ({ request }) => {
+    const token = request.headers.get('authorization')?.match(/^Bearer\s+(.+)$/i)?.[1];
+    const payload = token ? await verifyOwnToken(token) : null;
+    if (!payload) {
+      return new Response(null, { status: 401, headers: { 'WWW-Authenticate': 'Bearer error="invalid_token"' } });
+    }
+    if (!rolesForClaims(payload).has('admin')) {
+      return oauthError('insufficient_scope', 'key rotation requires the admin role', 403);
+    }
+    const form = new URLSearchParams(await request.text());
+    const alg = form.get('alg') ?? signingKeys.active.alg;
+    if (alg !== 'RS256' && alg !== 'ES256') {
+      return oauthError('invalid_request', 'alg must be RS256 or ES256');
+    }
+    const created = signingKeys.rotate(alg);
+    return json({
+      active: { kid: created.kid, alg: created.alg },
+      keys: signingKeys.publicJwks().map((key) => key.kid)
+    });
+  });
+
+  /**
+   * Without explicit claims the endpoint renders the persona picker, whose forms post back
+   * here with `mock_persona` or `mock_claims_json`. Scripts can still skip the page by
+   * passing base64url `mock_jwk_claims`.
+   */
+  const authorize = (params: URLSearchParams) => {
+    const redirectUri = params.get('redirect_uri');
     if (!redirectUri) return text('missing redirect_uri', 400);
 
-    const state = url.searchParams.get('state');
-    const claimsParam = url.searchParams.get('mock_jwk_claims');
-    if (!claimsParam) return text('mock_jwk_claims required', 400);
+    const state = params.get('state');
+    const codeChallenge = params.get('code_challenge');
+    const codeChallengeMethod = params.get('code_challenge_method') ?? 'plain';
+    if (codeChallengeMethod !== 'S256' && codeChallengeMethod !== 'plain') {
+      return text('code_challenge_method must be S256 or plain', 400);
+    }
 
     let claims: Record<string, unknown>;
-    try {
-      claims = decodeClaims(claimsParam);
-    } catch (err) {
-      return text('mock_jwk_claims must be base64url encoded JSON object', 400);
+    const claimsParam = params.get('mock_jwk_claims');
+    const claimsJson = params.get('mock_claims_json');
+    const personaId = params.get('mock_persona');
+    if (claimsParam) {
+      try {
+        claims = decodeClaims(claimsParam);
+      } catch (err) {
+        return text('mock_jwk_claims must be base64url encoded JSON object', 400);
+      }
+    } else if (claimsJson) {
+      try {
+        claims = parseClaims(claimsJson);
+      } catch (err) {
+        return html(renderPersonaPicker(authorizationEndpoint, params, personas, 'Custom claims must be a JSON object.'), 400);
+      }
+    } else if (personaId) {
+      const persona = personas.find((entry) => entry.id === personaId);
+      if (!persona) return html(renderPersonaPicker(authorizationEndpoint, params, personas, `Unknown persona "${personaId}".`), 400);
+      claims = { ...persona.claims };
+    } else {
+      return html(renderPersonaPicker(authorizationEndpoint, params, personas, null));
     }
 
     if (typeof claims.sub !== 'string' || !claims.sub) {
       claims = { ...claims, sub: 'mock-user' };
     }
 
-    const clientId = url.searchParams.get('client_id') ?? options.defaultClientId;
+    const clientId = params.get('client_id') ?? options.defaultClientId;
     const code = randomUUID();
     authCodes.set(code, {
       claims,
       clientId,
-      scope: url.searchParams.get('scope')
+      scope: params.get('scope'),
+      redirectUri,
+      codeChallenge,
+      codeChallengeMethod,
+      expiresAt: Date.now() + AUTH_CODE_TTL_MS
     });
 
     const location = appendAuthParams(redirectUri, code, state);
     return new Response(null, { status: 302, headers: { Location: location } });
-  });
+  };
+
+  app.get(authorizationEndpoint, ({ request }) => authorize(new URL(request.url).searchParams));
+  app.post(authorizationEndpoint, async ({ request }) => authorize(new URLSearchParams(await request.text())));
 
   app.post(tokenEndpoint, async ({ request }) => {
     const form = new URLSearchParams(await request.text());
+    const grantType = form.get('grant_type');
+    if (grantType === 'refresh_token') {
+      return refreshGrant(form);
+    }
+    if (grantType === 'client_credentials') {
+      return clientCredentialsGrant(form, request.headers.get('authorization'));
+    }
+    if (grantType !== 'authorization_code') {
+      return oauthError('unsupported_grant_type', `grant_type ${grantType ?? '(missing)'} is not supported`);
+    }
     const code = form.get('code');
-    if (!code) return text('invalid_grant', 400);
+    if (!code) return oauthError('invalid_request', 'code is required');
 
     const stored = authCodes.get(code);
-    if (!stored) return text('invalid_grant', 400);
+    if (!stored) return oauthError('invalid_grant', 'authorization code is unknown or already used');
     authCodes.delete(code);
 
-    const clientId = form.get('client_id') ?? stored.clientId;
+    if (stored.expiresAt < Date.now()) {
+      return oauthError('invalid_grant', 'authorization code has expired');
+    }
+    if (form.get('redirect_uri') !== stored.redirectUri) {
+      return oauthError('invalid_grant', 'redirect_uri does not match the authorization request');
+    }
+    const requestedClientId = form.get('client_id');
+    if (requestedClientId && requestedClientId !== stored.clientId) {
+      return oauthError('invalid_grant', 'authorization code was issued to another client');
+    }
+    if (stored.codeChallenge) {
+      const verifier = form.get('code_verifier');
+      if (!verifier) return oauthError('invalid_grant', 'code_verifier is required');
+      if (!verifyPkce(verifier, stored.codeChallenge, stored.codeChallengeMethod)) {
+        return oauthError('invalid_grant', 'code_verifier does not match code_challenge');
+      }
+    }
+
     const scope = form.get('scope') ?? stored.scope ?? 'openid profile email';
+    return issueTokens(stored.claims, stored.clientId, scope, randomUUID());
+  });
+
+  const userInfo = async ({ request }: { request: Request }) => {
+    const header = request.headers.get('authorization');
+    const token = header?.match(/^Bearer\s+(.+)$/i)?.[1];
+    const payload = token ? await verifyOwnToken(token) : null;
+    if (!payload) {
+      return new Response(null, {
+        status: 401,
+        headers: { 'WWW-Authenticate': 'Bearer error="invalid_token"' }
+      });
+    }
+    const profile = Object.fromEntries(Object.entries(payload).filter(([key]) => !NON_PROFILE_CLAIMS.has(key)));
+    return json(profile);
+  };
+  app.get(userInfoEndpoint, userInfo);
+  app.post(userInfoEndpoint, userInfo);
+
+  // RFC 7009: the endpoint answers 200 whether or not the token was valid.
+  app.post(revocationEndpoint, async ({ request }) => {
+    const form = new URLSearchParams(await request.text());
+    const token = form.get('token');
+    if (!token) return oauthError('invalid_request', 'token is required');
+    const refresh = refreshTokens.get(token);
+    if (refresh) {
+      revokeRefreshFamily(refresh.familyId);
+    } else {
+      const payload = await verifyOwnToken(token);
+      if (typeof payload?.jti === 'string') revokeTokenId(payload.jti, payload.exp ?? 0);
+    }
+    return new Response(null, { status: 200, headers: { 'Cache-Control': 'no-store' } });
+  });
+
+  // OpenID Connect RP-Initiated Logout: ends the login named by the id_token_hint `sid`.
+  app.get(endSessionEndpoint, async ({ request }) => {
+    const url = new URL(request.url);
+    const hint = url.searchParams.get('id_token_hint');
+    const payload = hint ? await verifyOwnToken(hint, { allowExpired: true }) : null;
+    if (typeof payload?.sid === 'string') revokeRefreshFamily(payload.sid);
+
+    const postLogoutRedirectUri = url.searchParams.get('post_logout_redirect_uri');
+    if (!postLogoutRedirectUri) return text('You have been signed out of the mock identity provider.', 200);
+    let location: URL;
+    try {
+      location = new URL(postLogoutRedirectUri);
+    } catch {
+      return text('post_logout_redirect_uri must be an absolute URL', 400);
+    }
+    // No client registers logout URIs with the mock, so only the app that hosts it is a safe target.
+    if (location.origin !== new URL(issuer).origin) {
+      return text('post_logout_redirect_uri must be on the same origin as the issuer', 400);
+    }
+    const state = url.searchParams.get('state');
+    if (state) location.searchParams.set('state', state);
+    return new Response(null, { status: 302, headers: { Location: location.toString() } });
+  });
+
+  async function verifyOwnToken(token: string, opts: { allowExpired?: boolean } = {}): Promise<JWTPayload | null> {
+    try {
+      const { payload } = await jwtVerify(token, createLocalJWKSet({ keys: signingKeys.publicJwks() }), {
+        issuer,
+        currentDate: opts.allowExpired ? new Date(0) : undefined
+      });
+      if (!opts.allowExpired && isTokenRevoked(payload.jti)) return null;
+      return payload;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Refresh tokens rotate on every use. Presenting an already-rotated token is treated
+   * as theft (RFC 6819 §5.2.2.3) and revokes every token descended from the same login.
+   */
+  async function refreshGrant(form: URLSearchParams) {
+    const presented = form.get('refresh_token');
+    if (!presented) return oauthError('invalid_request', 'refresh_token is required');
+    const stored = refreshTokens.get(presented);
+    if (!stored) return oauthError('invalid_grant', 'refresh token is unknown or revoked');
+    if (stored.used) {
+      revokeRefreshFamily(stored.familyId);
+      return oauthError('invalid_grant', 'refresh token was already used; the session has been revoked');
+    }
+    if (stored.expiresAt < Date.now()) {
+      refreshTokens.delete(presented);
+      return oauthError('invalid_grant', 'refresh token has expired');
+    }
+    const requestedClientId = form.get('client_id');
+    if (requestedClientId && requestedClientId !== stored.clientId) {
+      return oauthError('invalid_grant', 'refresh token was issued to another client');
+    }
+    stored.used = true;
+    return issueTokens(stored.claims, stored.clientId, stored.scope, stored.familyId);
+  }
+
+  /**
+   * Machine-to-machine grant for registered clients. The access token carries `client_id`
+   * but no `sub`, so the FHIR façade treats it as a system caller rather than a filer.
+   */
+  async function clientCredentialsGrant(form: URLSearchParams, authorization: string | null) {
+    const authenticated = await authenticateClient(form, authorization);
+    if (typeof authenticated === 'string') {
+      return oauthError('invalid_client', authenticated, 401, authorization ? { 'WWW-Authenticate': 'Basic realm="mock-oidc"' } : undefined);
+    }
+    const allowed = authenticated.scope.split(/\s+/).filter(Boolean);
+    const requested = form.get('scope')?.split(/\s+/).filter(Boolean) ?? allowed;
+    const refused = requested.filter((entry) => !allowed.includes(entry));
+    if (refused.length > 0) {
+      return oauthError('invalid_scope', `client ${authenticated.clientId} may not request ${refused.join(' ')}`);
+    }
+    const scope = requested.join(' ');
+
+    const nowSeconds = Math.floor(Date.now() / 1000);
+    const signingKey = signingKeys.active;
+    const accessToken = await new SignJWT({
+      iss: issuer,
+      aud: options.defaultClientId,
+      client_id: authenticated.clientId,
+      client_name: authenticated.label,
+      iat: nowSeconds,
+      exp: nowSeconds + accessTokenTtl,
+      scope
+    })
+      .setProtectedHeader({ alg: signingKey.alg, kid: signingKey.kid })
+      .setJti(randomUUID())
+      .sign(signingKey.privateKey);
+
+    return json({
+      access_token: accessToken,
+      token_type: 'Bearer',
+      expires_in: accessTokenTtl,
+      scope
+    });
+  }
+
+  // Resolves the registered client, or a description of why it could not be authenticated.
+  async function authenticateClient(form: URLSearchParams, authorization: string | null): Promise<MockClient | string> {
+    const assertion = form.get('client_assertion');
+    if (assertion) {
+      if (form.get('client_assertion_type') !== CLIENT_ASSERTION_TYPE) return 'unsupported client_assertion_type';
+      return verifyClientAssertion(assertion, form.get('client_id'));
+    }
+
+    let clientId = form.get('client_id');
+    let secret = form.get('client_secret');
+    const basic = authorization?.match(/^Basic\s+(.+)$/i)?.[1];
+    if (basic) {
+      // RFC 6749 §2.3.1: both halves are form-urlencoded before base64 encoding.
+      const decoded = Buffer.from(basic, 'base64').toString('utf-8');
+      const separator = decoded.indexOf(':');
+      if (separator < 0) return 'malformed Basic credentials';
+      clientId = decodeURIComponent(decoded.slice(0, separator).replace(/\+/g, ' '));
+      secret = decodeURIComponent(decoded.slice(separator + 1).replace(/\+/g, ' '));
+    }
+    const client = clients.find((entry) => entry.clientId === clientId);
+    if (!client?.clientSecret || !secret || !secretsMatch(secret, client.clientSecret)) {
+      return 'client authentication failed';
+    }
+    return client;
+  }
+
+  async function verifyClientAssertion(assertion: string, claimedClientId: string | null): Promise<MockClient | string> {
+    const client = clients.find((entry) => entry.clientId === (claimedClientId ?? decodeUnverifiedIssuer(assertion)));
+    if (!client?.jwks) return 'client is not registered for private_key_jwt';
+    try {
+      const { payload } = await jwtVerify(assertion, createLocalJWKSet({ keys: client.jwks }), {
+        issuer: client.clientId,
+        subject: client.clientId,
+        audience: [`${issuer}/token`, issuer],
+        requiredClaims: ['exp', 'jti']
+      });
+      pruneClientAssertions();
+      if (usedClientAssertions.has(payload.jti!)) return 'client_assertion has already been used';
+      usedClientAssertions.set(payload.jti!, payload.exp!);
+      return client;
+    } catch {
+      return 'client_assertion is invalid or expired';
+    }
+  }
+
+  async function issueTokens(claims: Record<string, unknown>, clientId: string, scope: string, familyId: string) {
     const nowSeconds = Math.floor(Date.now() / 1000);
 
     const baseClaims = {
-      ...stored.claims,
+      ...claims,
+      sid: familyId,
       iss: issuer,
       aud: clientId,
       iat: nowSeconds,
-      exp: nowSeconds + 3600,
-      sub: typeof stored.claims.sub === 'string' && stored.claims.sub ? stored.claims.sub : 'mock-user'
+      exp: nowSeconds + accessTokenTtl,
+      sub: typeof claims.sub === 'string' && claims.sub ? claims.sub : 'mock-user'
     };
 
+    const signingKey = signingKeys.active;
     const idToken = await new SignJWT(baseClaims)
-      .setProtectedHeader({ alg: 'RS256', kid: publicJwk.kid })
-      .sign(privateKey);
+      .setProtectedHeader({ alg: signingKey.alg, kid: signingKey.kid })
+      .sign(signingKey.privateKey);
 
+    const jti = randomUUID();
     const accessToken = await new SignJWT({ ...baseClaims, scope })
-      .setProtectedHeader({ alg: 'RS256', kid: publicJwk.kid })
-      .sign(privateKey);
+      .setProtectedHeader({ alg: signingKey.alg, kid: signingKey.kid })
+      .setJti(jti)
+      .sign(signingKey.privateKey);
+    issuedAccessTokens.set(jti, { familyId, exp: baseClaims.exp });
+
+    const refreshToken = randomUUID();
+    refreshTokens.set(refreshToken, {
+      claims,
+      clientId,
+      scope,
+      familyId,
+      used: false,
+      expiresAt: Date.now() + REFRESH_TOKEN_TTL_MS
+    });
 
     return json({
       access_token: accessToken,
       token_type: 'Bearer',
-      expires_in: 3600,
+      expires_in: accessTokenTtl,
       scope,
-      id_token: idToken
+      id_token: idToken,
+      refresh_token: refreshToken
     });
-  });
+  }
+}
+
+function revokeRefreshFamily(familyId: string) {
+  for (const [token, entry] of refreshTokens) {
+    if (entry.familyId === familyId) refreshTokens.delete(token);
+  }
+  const nowSeconds = Math.floor(Date.now() / 1000);
+  for (const [jti, entry] of issuedAccessTokens) {
+    if (entry.familyId === familyId) revokeTokenId(jti, entry.exp);
+    if (entry.familyId === familyId || entry.exp < nowSeconds) issuedAccessTokens.delete(jti);
+  }
 }
 
 function normalizeBasePath(path: string) {
@@ -124,7 +477,10 @@ function normalizeBasePath(path: string) {
 }
 
 function decodeClaims(raw: string): Record<string, unknown> {
-  const jsonString = Buffer.from(raw, 'base64url').toString('utf-8');
+  return parseClaims(Buffer.from(raw, 'base64url').toString('utf-8'));
+}
+
+function parseClaims(jsonString: string): Record<string, unknown> {
   const parsed = JSON.parse(jsonString);
   if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
     throw new Error('Claims payload must be JSON object');
@@ -154,6 +510,115 @@ function json(data: unknown) {
   });
 }
 
+function verifyPkce(verifier: string, challenge: string, method: CodeChallengeMethod) {
+  // RFC 7636 §4.1: 43-128 characters from the unreserved set.
+  if (!/^[A-Za-z0-9\-._~]{43,128}$/.test(verifier)) return false;
+  if (method === 'plain') return verifier === challenge;
+  return createHash('sha256').update(verifier).digest('base64url') === challenge;
+}
+
+// RFC 6749 §5.2 error response.
+function oauthError(error: string, description: string, status = 400, extraHeaders?: Record<string, string>) {
+  return new Response(JSON.stringify({ error, error_description: description }), {
+    status,
+    headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...extraHeaders }
+  });
+}
+
+function secretsMatch(presented: string, expected: string) {
+  const a = Buffer.from(presented);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+function decodeUnverifiedIssuer(assertion: string): string | null {
+  try {
+    return decodeJwt(assertion).iss ?? null;
+  } catch {
+    return null;
+  }
+}
+
+function pruneClientAssertions() {
+  const nowSeconds = Math.floor(Date.now() / 1000);
+  for (const [jti, exp] of usedClientAssertions) {
+    if (exp < nowSeconds) usedClientAssertions.delete(jti);
+  }
+}
+
+const PICKER_PASSTHROUGH_PARAMS = [
+  'client_id',
+  'redirect_uri',
+  'response_type',
+  'scope',
+  'state',
+  'nonce',
+  'code_challenge',
+  'code_challenge_method'
+];
+
+function renderPersonaPicker(action: string, params: URLSearchParams, personas: MockPersona[], error: string | null) {
+  const hidden = PICKER_PASSTHROUGH_PARAMS
+    .filter((name) => params.has(name))
+    .map((name) => `<input type="hidden" name="${name}" value="${escapeHtml(params.get(name) ?? '')}" />`)
+    .join('');
+  const personaForms = personas
+    .map((persona) => `
+      <form method="post" action="${escapeHtml(action)}" class="persona">
+        ${hidden}
+        <input type="hidden" name="mock_persona" value="${escapeHtml(persona.id)}" />
+        <button type="submit">${escapeHtml(persona.label)}</button>
+        ${persona.description ? `<p>${escapeHtml(persona.description)}</p>` : ''}
+        <code>${escapeHtml(JSON.stringify(persona.claims))}</code>
+      </form>`)
+    .join('');
+  const customDefault = params.get('mock_claims_json') ?? JSON.stringify(personas[0]?.claims ?? { sub: 'mock-user' }, null, 2);
+  return `<!doctype html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>Mock identity provider</title>
+  <style>
+    body { font-family: system-ui, sans-serif; max-width: 720px; margin: 40px auto; padding: 0 16px; color: #1f2937; }
+    .persona { border: 1px solid #cbd5e1; border-radius: 8px; padding: 12px 16px; margin-bottom: 12px; }
+    .persona p { margin: 6px 0; font-size: 14px; }
+    code { font-size: 12px; color: #475569; word-break: break-all; }
+    button { background: #1d4ed8; color: white; border: 0; border-radius: 6px; padding: 8px 14px; font-size: 15px; cursor: pointer; }
+    textarea { width: 100%; min-height: 160px; font-family: ui-monospace, monospace; font-size: 13px; }
+    .error { background: #fef2f2; border: 1px solid #fecaca; color: #991b1b; padding: 8px 12px; border-radius: 6px; }
+  </style>
+</head>
+<body>
+  <h1>Sign in as…</h1>
+  <p>This is the mock OpenID Connect provider. Choose a persona or supply custom claims.</p>
+  ${error ? `<p class="error">${escapeHtml(error)}</p>` : ''}
+  ${personaForms}
+  <h2>Custom claims</h2>
+  <form method="post" action="${escapeHtml(action)}">
+    ${hidden}
+    <textarea name="mock_claims_json" spellcheck="false">${escapeHtml(customDefault)}</textarea>
+    <p><button type="submit">Sign in with custom claims</button></p>
+  </form>
+</body>
+</html>`;
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function html(body: string, status = 200) {
+  return new Response(body, {
+    status,
+    headers: { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' }
+  });
+}
+
 function text(message: string, status: number) {
   return new Response(message, { status });
 }
@@ -0,0 +1,70 @@
+import { existsSync, readFileSync } from 'node:fs';
+
+export type MockPersona = {
+  id: string;
+  label: string;
+  description?: string;
+  claims: Record<string, unknown>;
+};
+
+export const DEFAULT_MOCK_PERSONAS: MockPersona[] = [
+  {
+    id: 'filer',
+    label: 'Jane Doe (filer)',
+    description: 'Files her own annual disclosure.',
+    claims: { sub: 'jane.doe', name: 'Jane Doe', email: 'jane.doe@example.org', preferred_username: 'jane.doe' }
+  },
+  {
+    id: 'reviewer',
+    label: 'Raj Patel (reviewer)',
+    description: 'Reviews completed filings from every participant.',
+    claims: { sub: 'raj.patel', name: 'Raj Patel', email: 'raj.patel@example.org', preferred_username: 'raj.patel', roles: ['reviewer'] }
+  },
+  {
+    id: 'admin',
+    label: 'Alex Kim (administrator)',
+    description: 'Manages the Questionnaire and every filing.',
+    claims: { sub: 'alex.kim', name: 'Alex Kim', email: 'alex.kim@example.org', preferred_username: 'alex.kim', roles: ['admin'] }
+  },
+  {
+    id: 'board-member',
+    label: 'Morgan Lee (board member)',
+    description: 'Board member who files, reviews and administers.',
+    claims: {
+      sub: 'morgan.lee',
+      name: 'Morgan Lee',
+      email: 'morgan.lee@example.org',
+      preferred_username: 'morgan.lee',
+      roles: ['reviewer', 'admin'],
+      groups: ['board']
+    }
+  }
+];
+
+/**
+ * Personas come from `MOCK_OIDC_PERSONAS`, which may hold either a JSON array or the
+ * path of a JSON file containing one. Without it the built-in personas are used.
+ */
+export function loadMockPersonas(source = process.env.MOCK_OIDC_PERSONAS): MockPersona[] {
+  if (!source) return DEFAULT_MOCK_PERSONAS;
+  const raw = source.trim().startsWith('[') ? source : readPersonaFile(source);
+  const parsed = JSON.parse(raw) as unknown;
+  if (!Array.isArray(parsed)) throw new Error('MOCK_OIDC_PERSONAS must be a JSON array');
+  return parsed.map((entry, index) => {
+    const persona = entry as Partial<MockPersona>;
+    if (!persona || typeof persona.id !== 'string' || !persona.claims || typeof persona.claims !== 'object') {
+      throw new Error(`MOCK_OIDC_PERSONAS[${index}] needs an id and a claims object`);
+    }
+    return {
+      id: persona.id,
+      label: typeof persona.label === 'string' ? persona.label : persona.id,
+      description: typeof persona.description === 'string' ? persona.description : undefined,
+      claims: persona.claims
+    };
+  });
+}
+
+function readPersonaFile(path: string) {
+  if (!existsSync(path)) throw new Error(`MOCK_OIDC_PERSONAS file not found: ${path}`);
+  return readFileSync(path, 'utf-8');
+}
@@ -0,0 +1,75 @@
+import type { FHIRResource } from './db';
+
+export type IssueSeverity = 'fatal' | 'error' | 'warning' | 'information';
+
+// The subset of the FHIR issue-type value set the façade reports.
+export type IssueType =
+  | 'invalid'
+  | 'structure'
+  | 'required'
+  | 'value'
+  | 'login'
+  | 'forbidden'
+  | 'not-supported'
+  | 'not-found'
+  | 'deleted'
+  | 'conflict'
+  | 'multiple-matches'
+  | 'exception'
+  | 'processing';
+
+/** `expression` holds FHIRPath locations of the offending elements, e.g. `QuestionnaireResponse.status`. */
+export type OutcomeIssue = {
+  severity: IssueSeverity;
+  code: IssueType;
+  diagnostics: string;
+  expression?: string[];
+};
+
+export function operationOutcome(issues: OutcomeIssue[]): FHIRResource {
+  return { resourceType: 'OperationOutcome', issue: issues };
+}
+
+/**
+ * What a FHIR interaction produced, before it becomes an HTTP response or a Bundle entry.
+ * Failures carry their OperationOutcome as `resource`.
+ */
+export type InteractionResult = {
+  status: number;
+  resource?: FHIRResource;
+  headers?: Headers;
+};
+
+export function toResponse(result: InteractionResult): Response {
+  const headers = new Headers(result.headers);
+  if (result.resource) headers.set('Content-Type', 'application/fhir+json');
+  const body = result.resource && result.status !== 204 ? JSON.stringify(result.resource) : null;
+  return new Response(body, { status: result.status, headers });
+}
+
+export function outcomeResult(status: number, issues: OutcomeIssue[], headers?: HeadersInit): InteractionResult {
+  return { status, resource: operationOutcome(issues), headers: new Headers(headers) };
+}
+
+/** A single-issue error, which covers almost every failure the API reports. */
+export function errorResult(
+  status: number,
+  code: IssueType,
+  diagnostics: string,
+  options: { expression?: string[]; headers?: HeadersInit } = {}
+): InteractionResult {
+  return outcomeResult(status, [{ severity: 'error', code, diagnostics, expression: options.expression }], options.headers);
+}
+
+export function outcomeResponse(status: number, issues: OutcomeIssue[], headers?: HeadersInit): Response {
+  return toResponse(outcomeResult(status, issues, headers));
+}
+
+export function errorResponse(
+  status: number,
+  code: IssueType,
+  diagnostics: string,
+  options: { expression?: string[]; headers?: HeadersInit } = {}
+): Response {
+  return toResponse(errorResult(status, code, diagnostics, options));
+}
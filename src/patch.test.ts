@@ -0,0 +1,193 @@
+import { describe, expect, test } from 'bun:test';
+import type { FHIRResource } from './db';
+import { applyPatch, bundlePatchBody, JSON_PATCH_CONTENT_TYPE } from './patch';
+
+const response = (): FHIRResource => ({
+  resourceType: 'QuestionnaireResponse',
+  id: 'qr1',
+  status: 'in-progress',
+  item: [
+    { linkId: 'roles', item: [{ linkId: 'roles.entityName', answer: [{ valueString: 'Acme' }] }] },
+    { linkId: 'gifts', item: [{ linkId: 'gifts.sponsor', answer: [{ valueString: 'Globex' }] }] }
+  ]
+});
+
+type Item = { linkId: string; text?: string; answer?: unknown[]; item?: Item[] };
+
+const items = (resource: FHIRResource | undefined) => (resource?.item ?? []) as Item[];
+
+const jsonPatch = (resource: FHIRResource, operations: unknown) => applyPatch(resource, JSON_PATCH_CONTENT_TYPE, operations);
+
+const operation = (type: string, parts: Record<string, unknown>[]) => ({
+  name: 'operation',
+  part: [{ name: 'type', valueCode: type }, ...parts]
+});
+
+const fhirPathPatch = (resource: FHIRResource, ...operations: unknown[]) =>
+  applyPatch(resource, 'application/fhir+json', { resourceType: 'Parameters', parameter: operations });
+
+const GIFTS = "QuestionnaireResponse.item.where(linkId='gifts')";
+
+describe('JSON Patch', () => {
+  test('applies add, remove, replace, move, copy and test to a copy', () => {
+    const original = response();
+    const result = jsonPatch(original, [
+      { op: 'test', path: '/status', value: 'in-progress' },
+      { op: 'replace', path: '/status', value: 'stopped' },
+      { op: 'add', path: '/authored', value: '2025-03-01' },
+      { op: 'add', path: '/item/-', value: { linkId: 'financial' } },
+      { op: 'copy', from: '/item/0/linkId', path: '/item/2/text' },
+      { op: 'move', from: '/item/2', path: '/item/0' },
+      { op: 'remove', path: '/item/2' }
+    ]);
+    expect(result.error).toBeUndefined();
+    expect(result.resource?.status).toBe('stopped');
+    expect(result.resource?.authored).toBe('2025-03-01');
+    expect(items(result.resource)).toEqual([{ linkId: 'financial', text: 'roles' }, items(response())[0]]);
+    expect(original).toEqual(response());
+  });
+
+  test('replace keeps the order of object keys', () => {
+    const result = jsonPatch(response(), [{ op: 'replace', path: '/status', value: 'stopped' }]);
+    expect(Object.keys(result.resource!)).toEqual(Object.keys(response()));
+  });
+
+  test('unescapes ~1 and ~0 in pointers', () => {
+    const result = jsonPatch({ ...response(), 'a/b~c': 1 }, [{ op: 'replace', path: '/a~1b~0c', value: 2 }]);
+    expect(result.resource?.['a/b~c']).toBe(2);
+  });
+
+  test('a failed test fails the whole patch with 422', () => {
+    const result = jsonPatch(response(), [
+      { op: 'replace', path: '/status', value: 'stopped' },
+      { op: 'test', path: '/status', value: 'completed' }
+    ]);
+    expect(result.error?.status).toBe(422);
+    expect(result.resource).toBeUndefined();
+  });
+
+  test('missing targets answer 422 and malformed operations 400', () => {
+    expect(jsonPatch(response(), [{ op: 'remove', path: '/authored' }]).error?.status).toBe(422);
+    expect(jsonPatch(response(), [{ op: 'replace', path: '/item/5', value: {} }]).error?.status).toBe(422);
+    expect(jsonPatch(response(), [{ op: 'add', path: 'status', value: 'x' }]).error?.status).toBe(400);
+    expect(jsonPatch(response(), [{ op: 'add', path: '/status' }]).error?.status).toBe(400);
+    expect(jsonPatch(response(), [{ op: 'frobnicate', path: '/status' }]).error?.status).toBe(400);
+    expect(jsonPatch(response(), { op: 'remove', path: '/status' }).error?.status).toBe(400);
+  });
+
+  test('may not move a value into itself or change the id', () => {
+    expect(jsonPatch(response(), [{ op: 'move', from: '/item/0', path: '/item/0/item/0' }]).error?.status).toBe(400);
+    expect(jsonPatch(response(), [{ op: 'replace', path: '/id', value: 'other' }]).error?.status).toBe(422);
+    expect(jsonPatch(response(), [{ op: 'replace', path: '/resourceType', value: 'Patient' }]).error?.status).toBe(422);
+  });
+});
+
+describe('FHIRPath Patch', () => {
+  test('replace addresses items by linkId', () => {
+    const result = fhirPathPatch(
+      response(),
+      operation('replace', [
+        { name: 'path', valueString: `${GIFTS}.item.where(linkId='gifts.sponsor').answer.first().valueString` },
+        { name: 'value', valueString: 'Initech' }
+      ])
+    );
+    expect(items(result.resource)[1].item?.[0].answer).toEqual([{ valueString: 'Initech' }]);
+  });
+
+  test('add sets a single element and appends to or starts a list', () => {
+    const result = fhirPathPatch(
+      response(),
+      operation('add', [{ name: 'path', valueString: GIFTS }, { name: 'name', valueString: 'text' }, { name: 'value', valueString: 'Gifts' }]),
+      operation('add', [
+        { name: 'path', valueString: 'QuestionnaireResponse' },
+        { name: 'name', valueString: 'item' },
+        { name: 'value', part: [{ name: 'linkId', valueString: 'financial' }] }
+      ]),
+      operation('add', [
+        { name: 'path', valueString: 'QuestionnaireResponse' },
+        { name: 'name', valueString: 'identifier' },
+        { name: 'value', valueIdentifier: { system: 'urn:x', value: '1' } }
+      ])
+    );
+    expect(items(result.resource)[1].text).toBe('Gifts');
+    expect(items(result.resource)[2]).toEqual({ linkId: 'financial' });
+    expect(result.resource?.identifier).toEqual([{ system: 'urn:x', value: '1' }]);
+  });
+
+  test('add refuses to overwrite an existing single element', () => {
+    const result = fhirPathPatch(
+      response(),
+      operation('add', [{ name: 'path', valueString: 'QuestionnaireResponse' }, { name: 'name', valueString: 'status' }, { name: 'value', valueCode: 'stopped' }])
+    );
+    expect(result.error?.status).toBe(422);
+  });
+
+  test('insert and move reorder a list', () => {
+    const result = fhirPathPatch(
+      response(),
+      operation('insert', [
+        { name: 'path', valueString: 'QuestionnaireResponse.item' },
+        { name: 'index', valueInteger: 1 },
+        { name: 'value', part: [{ name: 'linkId', valueString: 'financial' }] }
+      ]),
+      operation('move', [
+        { name: 'path', valueString: 'QuestionnaireResponse.item' },
+        { name: 'source', valueInteger: 2 },
+        { name: 'destination', valueInteger: 0 }
+      ])
+    );
+    expect(items(result.resource).map((item) => item.linkId)).toEqual(['gifts', 'roles', 'financial']);
+  });
+
+  test('insert beyond the end of the list answers 422', () => {
+    const result = fhirPathPatch(
+      response(),
+      operation('insert', [
+        { name: 'path', valueString: 'QuestionnaireResponse.item' },
+        { name: 'index', valueInteger: 5 },
+        { name: 'value', part: [{ name: 'linkId', valueString: 'x' }] }
+      ])
+    );
+    expect(result.error?.status).toBe(422);
+  });
+
+  test('delete removes one element, drops emptied lists and ignores missing paths', () => {
+    const result = fhirPathPatch(
+      response(),
+      operation('delete', [{ name: 'path', valueString: `${GIFTS}.item[0].answer[0]` }]),
+      operation('delete', [{ name: 'path', valueString: 'QuestionnaireResponse.authored' }])
+    );
+    expect(items(result.resource)[1].item?.[0]).toEqual({ linkId: 'gifts.sponsor' });
+  });
+
+  test('delete of several matches answers 422', () => {
+    const result = fhirPathPatch(response(), operation('delete', [{ name: 'path', valueString: 'QuestionnaireResponse.item' }]));
+    expect(result.error?.status).toBe(422);
+  });
+
+  test('unsupported FHIRPath, paths on another type and malformed bodies answer 400', () => {
+    expect(fhirPathPatch(response(), operation('delete', [{ name: 'path', valueString: 'QuestionnaireResponse.item.exists()' }])).error?.status).toBe(400);
+    expect(fhirPathPatch(response(), operation('delete', [{ name: 'path', valueString: 'Patient.name' }])).error?.status).toBe(400);
+    expect(fhirPathPatch(response(), operation('replace', [{ name: 'path', valueString: 'QuestionnaireResponse.status' }])).error?.status).toBe(400);
+    expect(fhirPathPatch(response()).error?.status).toBe(400);
+    expect(applyPatch(response(), 'application/fhir+json', []).error?.status).toBe(400);
+  });
+});
+
+describe('content types', () => {
+  test('only JSON Patch and FHIR JSON are accepted', () => {
+    const parameters = { resourceType: 'Parameters', parameter: [] };
+    expect(applyPatch(response(), 'application/json', parameters).error?.status).toBe(415);
+    expect(applyPatch(response(), 'text/plain', []).error?.status).toBe(415);
+    expect(applyPatch(response(), null, []).error?.status).toBe(415);
+    expect(applyPatch(response(), 'application/json-patch+json; charset=utf-8', []).resource).toEqual(response());
+  });
+
+  test('Bundle entries carry JSON Patch in a Binary and FHIRPath Patch as Parameters', () => {
+    const operations = [{ op: 'remove', path: '/status' }];
+    const binary = { resourceType: 'Binary', contentType: JSON_PATCH_CONTENT_TYPE, data: Buffer.from(JSON.stringify(operations)).toString('base64') };
+    expect(bundlePatchBody(binary)).toEqual({ contentType: JSON_PATCH_CONTENT_TYPE, body: operations });
+    const parameters = { resourceType: 'Parameters', parameter: [] };
+    expect(bundlePatchBody(parameters)).toEqual({ contentType: 'application/fhir+json', body: parameters });
+  });
+});
@@ -0,0 +1,405 @@
+import type { FHIRResource } from './db';
+import { errorResult, type InteractionResult, type IssueType } from './outcome';
+
+export const JSON_PATCH_CONTENT_TYPE = 'application/json-patch+json';
+
+export type PatchResult = { resource: FHIRResource; error?: undefined } | { resource?: undefined; error: InteractionResult };
+
+type JsonPatchOperation = { op?: unknown; path?: unknown; from?: unknown; value?: unknown };
+
+type ParametersPart = { name?: unknown; part?: ParametersPart[]; [key: string]: unknown };
+
+// A FHIRPath match: the element itself and, unless it is the resource, where it is held.
+type PathNode = { value: unknown; holder?: Record<string, unknown>; key?: string; index?: number };
+
+type PathStep =
+  | { kind: 'member'; name: string }
+  | { kind: 'index'; index: number }
+  | { kind: 'where'; name: string; literal: unknown }
+  | { kind: 'first' | 'last' };
+
+// Elements that repeat in the resources the façade serves, so `add` starts a list rather than a single value.
+const REPEATING_ELEMENTS = new Set([
+  'answer',
+  'answerOption',
+  'coding',
+  'contained',
+  'enableWhen',
+  'extension',
+  'identifier',
+  'initial',
+  'item',
+  'modifierExtension',
+  'profile',
+  'security',
+  'subjectType',
+  'tag'
+]);
+
+// Thrown while applying a patch; applyPatch turns it into an OperationOutcome.
+class PatchFailure extends Error {
+  constructor(readonly status: number, readonly code: IssueType, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Applies a PATCH body to a copy of `resource`. `application/json-patch+json` bodies are RFC 6902
+ * JSON Patch documents and `application/fhir+json` bodies FHIRPath Patch `Parameters`; any other
+ * content type is refused with 415 rather than guessed at. Malformed patches fail with 400 and
+ * patches that do not fit the resource (a failed `test`, a missing target) with 422. Nothing is
+ * applied unless every operation succeeds.
+ */
+export function applyPatch(resource: FHIRResource, contentType: string | null, body: unknown): PatchResult {
+  const mediaType = (contentType ?? '').split(';')[0].trim().toLowerCase();
+  try {
+    let patched: unknown;
+    if (mediaType === JSON_PATCH_CONTENT_TYPE) {
+      patched = applyJsonPatch(structuredClone(resource), body);
+    } else if (mediaType === 'application/fhir+json') {
+      patched = applyFhirPathPatch(structuredClone(resource), body);
+    } else {
+      throw new PatchFailure(415, 'not-supported', `PATCH bodies must be ${JSON_PATCH_CONTENT_TYPE} or a FHIRPath Patch Parameters resource`);
+    }
+    if (!isObject(patched) || patched.resourceType !== resource.resourceType || patched.id !== resource.id) {
+      throw new PatchFailure(422, 'processing', 'A patch may not change the resourceType or id');
+    }
+    return { resource: patched as FHIRResource };
+  } catch (error) {
+    if (!(error instanceof PatchFailure)) throw error;
+    return { error: errorResult(error.status, error.code, error.message) };
+  }
+}
+
+/**
+ * The content type and body of a Bundle PATCH entry: a FHIRPath Patch `Parameters` resource,
+ * or a `Binary` whose data is a JSON Patch document.
+ */
+export function bundlePatchBody(resource: FHIRResource | null): { contentType: string | null; body: unknown } {
+  if (resource?.resourceType !== 'Binary') return { contentType: 'application/fhir+json', body: resource };
+  try {
+    return {
+      contentType: typeof resource.contentType === 'string' ? resource.contentType : null,
+      body: JSON.parse(Buffer.from(String(resource.data ?? ''), 'base64').toString('utf-8'))
+    };
+  } catch {
+    return { contentType: JSON_PATCH_CONTENT_TYPE, body: null };
+  }
+}
+
+function applyJsonPatch(document: unknown, body: unknown): unknown {
+  if (!Array.isArray(body)) {
+    throw new PatchFailure(400, 'structure', 'A JSON Patch body must be an array of operations');
+  }
+  return (body as JsonPatchOperation[]).reduce((current, operation, index) => {
+    const at = `JSON Patch operation ${index}`;
+    if (!isObject(operation) || typeof operation.path !== 'string') {
+      throw new PatchFailure(400, 'structure', `${at} needs an op and a path`);
+    }
+    const path = parsePointer(operation.path, at);
+    const needsValue = operation.op === 'add' || operation.op === 'replace' || operation.op === 'test';
+    if (needsValue && !('value' in operation)) {
+      throw new PatchFailure(400, 'structure', `${at} (${operation.op}) needs a value`);
+    }
+    const from = operation.op === 'move' || operation.op === 'copy' ? parsePointer(operation.from, `${at} from`) : [];
+    switch (operation.op) {
+      case 'add':
+        return pointerAdd(current, path, structuredClone(operation.value), at);
+      case 'remove':
+        return pointerRemove(current, path, at).document;
+      case 'replace': {
+        if (path.length === 0) return structuredClone(operation.value);
+        const parent = pointerGet(current, path.slice(0, -1), at);
+        (parent as Record<string, unknown>)[childKey(parent, path[path.length - 1], at)] = structuredClone(operation.value);
+        return current;
+      }
+      case 'move': {
+        if (path.length > from.length && from.every((segment, i) => path[i] === segment)) {
+          throw new PatchFailure(400, 'invalid', `${at} cannot move a value into itself`);
+        }
+        const removed = pointerRemove(current, from, at);
+        return pointerAdd(removed.document, path, removed.value, at);
+      }
+      case 'copy':
+        return pointerAdd(current, path, structuredClone(pointerGet(current, from, at)), at);
+      case 'test':
+        if (!deepEqual(pointerGet(current, path, at), operation.value)) {
+          throw new PatchFailure(422, 'processing', `${at} failed: ${operation.path} does not hold the expected value`);
+        }
+        return current;
+      default:
+        throw new PatchFailure(400, 'not-supported', `${at} has unknown op ${JSON.stringify(operation.op)}`);
+    }
+  }, document);
+}
+
+// RFC 6901: `/item/0/answer` with `~1` for '/' and `~0` for '~'.
+function parsePointer(pointer: unknown, at: string): string[] {
+  if (typeof pointer !== 'string' || (pointer !== '' && !pointer.startsWith('/'))) {
+    throw new PatchFailure(400, 'structure', `${at} needs a JSON Pointer such as /status`);
+  }
+  return pointer === '' ? [] : pointer.slice(1).split('/').map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+function pointerGet(document: unknown, path: string[], at: string): unknown {
+  return path.reduce((value, segment) => {
+    const key = childKey(value, segment, at);
+    return (value as Record<string, unknown>)[key];
+  }, document);
+}
+
+function pointerAdd(document: unknown, path: string[], value: unknown, at: string): unknown {
+  if (path.length === 0) return value;
+  const parent = pointerGet(document, path.slice(0, -1), at);
+  const segment = path[path.length - 1];
+  if (Array.isArray(parent)) {
+    const index = segment === '-' ? parent.length : arrayIndex(segment, parent.length + 1, at);
+    parent.splice(index, 0, value);
+  } else if (isObject(parent)) {
+    parent[segment] = value;
+  } else {
+    throw new PatchFailure(422, 'processing', `${at}: there is no object or array at the parent of /${path.join('/')}`);
+  }
+  return document;
+}
+
+function pointerRemove(document: unknown, path: string[], at: string): { document: unknown; value: unknown } {
+  if (path.length === 0) {
+    throw new PatchFailure(400, 'invalid', `${at} cannot remove the whole resource`);
+  }
+  const parent = pointerGet(document, path.slice(0, -1), at);
+  const key = childKey(parent, path[path.length - 1], at);
+  const value = (parent as Record<string, unknown>)[key];
+  if (Array.isArray(parent)) {
+    parent.splice(Number(key), 1);
+  } else {
+    delete (parent as Record<string, unknown>)[key];
+  }
+  return { document, value };
+}
+
+// The key of an existing child of `value`, which must be an object or array.
+function childKey(value: unknown, segment: string, at: string): string {
+  if (Array.isArray(value)) return String(arrayIndex(segment, value.length, at));
+  if (isObject(value) && Object.hasOwn(value, segment)) return segment;
+  throw new PatchFailure(422, 'processing', `${at}: ${segment} does not exist`);
+}
+
+function arrayIndex(segment: string, limit: number, at: string): number {
+  if (!/^(0|[1-9]\d*)$/.test(segment) || Number(segment) >= limit) {
+    throw new PatchFailure(422, 'processing', `${at}: ${segment} is not an index of the array`);
+  }
+  return Number(segment);
+}
+
+/**
+ * FHIRPath Patch (https://hl7.org/fhir/R4/fhirpatch.html): a Parameters resource with one
+ * `operation` parameter per change. Paths may use member names, `[n]` indexers,
+ * `where(name = literal)`, `first()` and `last()`, which covers addressing elements by position
+ * or, in a QuestionnaireResponse, by linkId.
+ */
+function applyFhirPathPatch(resource: FHIRResource, body: unknown): FHIRResource {
+  if (!isObject(body) || body.resourceType !== 'Parameters') {
+    throw new PatchFailure(400, 'structure', 'A FHIRPath Patch body must be a Parameters resource');
+  }
+  const operations = (Array.isArray(body.parameter) ? body.parameter : []) as ParametersPart[];
+  if (operations.length === 0 || operations.some((operation) => operation?.name !== 'operation')) {
+    throw new PatchFailure(400, 'structure', 'A FHIRPath Patch needs one or more parameters named operation');
+  }
+  operations.forEach((operation, index) => applyFhirPathOperation(resource, operation.part ?? [], `Parameters.parameter[${index}]`));
+  return resource;
+}
+
+function applyFhirPathOperation(resource: FHIRResource, parts: ParametersPart[], at: string) {
+  const part = (name: string) => parts.find((candidate) => candidate?.name === name);
+  const type = part('type')?.valueCode;
+  const path = part('path')?.valueString;
+  if (typeof type !== 'string' || typeof path !== 'string') {
+    throw new PatchFailure(400, 'structure', `${at} needs a type and a path`);
+  }
+  const steps = parsePath(path, resource.resourceType, at);
+  const value = () => {
+    const supplied = part('value');
+    if (!supplied) throw new PatchFailure(400, 'structure', `${at} (${type}) needs a value`);
+    return partValue(supplied, at);
+  };
+  const integer = (name: string) => {
+    const supplied = part(name)?.valueInteger;
+    if (typeof supplied !== 'number' || !Number.isInteger(supplied) || supplied < 0) {
+      throw new PatchFailure(400, 'structure', `${at} (${type}) needs a non-negative ${name}`);
+    }
+    return supplied;
+  };
+  switch (type) {
+    case 'add': {
+      const name = part('name')?.valueString;
+      if (typeof name !== 'string' || !/^[A-Za-z][A-Za-z0-9_]*$/.test(name)) {
+        throw new PatchFailure(400, 'structure', `${at} (add) needs the name of the element to add`);
+      }
+      const target = single(evaluate(resource, steps), path, at).value;
+      if (!isObject(target)) throw new PatchFailure(422, 'processing', `${at}: ${path} is not an element that can hold ${name}`);
+      const existing = target[name];
+      if (Array.isArray(existing)) existing.push(value());
+      else if (existing === undefined) target[name] = REPEATING_ELEMENTS.has(name) ? [value()] : value();
+      else throw new PatchFailure(422, 'processing', `${at}: ${path}.${name} already has a value; use replace`);
+      return;
+    }
+    case 'insert': {
+      const list = listAt(resource, steps, path, at);
+      const index = integer('index');
+      if (index > list.length) throw new PatchFailure(422, 'processing', `${at}: ${path} has only ${list.length} elements`);
+      list.splice(index, 0, value());
+      return;
+    }
+    case 'move': {
+      const list = listAt(resource, steps, path, at);
+      const [source, destination] = [integer('source'), integer('destination')];
+      if (source >= list.length || destination >= list.length) {
+        throw new PatchFailure(422, 'processing', `${at}: ${path} has only ${list.length} elements`);
+      }
+      list.splice(destination, 0, ...list.splice(source, 1));
+      return;
+    }
+    case 'replace': {
+      const node = single(evaluate(resource, steps), path, at);
+      if (!node.holder || node.key === undefined) throw new PatchFailure(400, 'invalid', `${at} cannot replace the whole resource`);
+      const replacement = value();
+      if (node.index === undefined) node.holder[node.key] = replacement;
+      else (node.holder[node.key] as unknown[])[node.index] = replacement;
+      return;
+    }
+    case 'delete': {
+      const nodes = evaluate(resource, steps);
+      // Deleting something that is not there is not an error.
+      if (nodes.length === 0) return;
+      const node = single(nodes, path, at);
+      if (!node.holder || node.key === undefined) throw new PatchFailure(400, 'invalid', `${at} cannot delete the whole resource`);
+      const held = node.holder[node.key];
+      if (node.index !== undefined && Array.isArray(held)) {
+        held.splice(node.index, 1);
+        // FHIR JSON never holds empty arrays.
+        if (held.length === 0) delete node.holder[node.key];
+      } else {
+        delete node.holder[node.key];
+      }
+      return;
+    }
+    default:
+      throw new PatchFailure(400, 'not-supported', `${at} has unknown type ${type}`);
+  }
+}
+
+function single(nodes: PathNode[], path: string, at: string): PathNode {
+  if (nodes.length !== 1) {
+    throw new PatchFailure(422, 'processing', `${at}: ${path} must match exactly one element but matched ${nodes.length}`);
+  }
+  return nodes[0];
+}
+
+// The list `insert` and `move` act on; its path must end in a member name and the list may not exist yet.
+function listAt(resource: FHIRResource, steps: PathStep[], path: string, at: string): unknown[] {
+  const last = steps[steps.length - 1];
+  if (last?.kind !== 'member') {
+    throw new PatchFailure(400, 'invalid', `${at}: ${path} must name a list, such as QuestionnaireResponse.item`);
+  }
+  const holder = single(evaluate(resource, steps.slice(0, -1)), path, at).value;
+  if (!isObject(holder)) throw new PatchFailure(422, 'processing', `${at}: ${path} is not a list`);
+  const list = holder[last.name] ?? [];
+  if (!Array.isArray(list)) throw new PatchFailure(422, 'processing', `${at}: ${path} is not a list`);
+  holder[last.name] = list;
+  return list;
+}
+
+// A `value[x]` part gives its value directly; a part with parts builds an element from them.
+function partValue(part: ParametersPart, at: string): unknown {
+  const key = Object.keys(part).find((candidate) => /^value[A-Z]/.test(candidate));
+  if (key) return structuredClone(part[key]);
+  if (!Array.isArray(part.part) || part.part.length === 0) {
+    throw new PatchFailure(400, 'structure', `${at}: ${String(part.name)} needs a value[x] or parts`);
+  }
+  const element: Record<string, unknown> = {};
+  for (const child of part.part) {
+    if (typeof child?.name !== 'string') throw new PatchFailure(400, 'structure', `${at}: every value part needs a name`);
+    const value = partValue(child, at);
+    const existing = element[child.name];
+    if (existing === undefined) element[child.name] = REPEATING_ELEMENTS.has(child.name) ? [value] : value;
+    else if (Array.isArray(existing)) existing.push(value);
+    else element[child.name] = [existing, value];
+  }
+  return element;
+}
+
+const ROOT_PATTERN = /^[A-Z][A-Za-z]*/;
+const STEP_PATTERNS: [RegExp, (match: RegExpMatchArray) => PathStep][] = [
+  [
+    /^\.where\(\s*([A-Za-z][A-Za-z0-9_]*)\s*=\s*('(?:[^'\\]|\\.)*'|-?\d+(?:\.\d+)?|true|false)\s*\)/,
+    (match) => ({ kind: 'where', name: match[1], literal: parseLiteral(match[2]) })
+  ],
+  [/^\.(first|last)\(\)/, (match) => ({ kind: match[1] as 'first' | 'last' })],
+  [/^\.([A-Za-z][A-Za-z0-9_]*)/, (match) => ({ kind: 'member', name: match[1] })],
+  [/^\[(\d+)\]/, (match) => ({ kind: 'index', index: Number(match[1]) })]
+];
+
+function parsePath(path: string, resourceType: string, at: string): PathStep[] {
+  const root = path.match(ROOT_PATTERN)?.[0];
+  if (root !== resourceType) {
+    throw new PatchFailure(400, 'invalid', `${at}: the path must start with ${resourceType}`);
+  }
+  const steps: PathStep[] = [];
+  let rest = path.slice(root.length).trim();
+  while (rest) {
+    const parsed = STEP_PATTERNS.map(([pattern, build]) => {
+      const match = rest.match(pattern);
+      return match ? { step: build(match), length: match[0].length } : null;
+    }).find(Boolean);
+    if (!parsed) {
+      throw new PatchFailure(400, 'not-supported', `${at}: unsupported FHIRPath at ${rest}`);
+    }
+    steps.push(parsed.step);
+    rest = rest.slice(parsed.length).trim();
+  }
+  return steps;
+}
+
+function parseLiteral(raw: string): unknown {
+  if (raw.startsWith("'")) return raw.slice(1, -1).replace(/\\(.)/g, '$1');
+  if (raw === 'true' || raw === 'false') return raw === 'true';
+  return Number(raw);
+}
+
+function evaluate(resource: FHIRResource, steps: PathStep[]): PathNode[] {
+  return steps.reduce<PathNode[]>((nodes, step) => {
+    switch (step.kind) {
+      case 'member':
+        return nodes.flatMap((node): PathNode[] => {
+          if (!isObject(node.value)) return [];
+          const holder = node.value;
+          const child = holder[step.name];
+          if (Array.isArray(child)) return child.map((value, index) => ({ value, holder, key: step.name, index }));
+          return child === undefined ? [] : [{ value: child, holder, key: step.name }];
+        });
+      case 'index':
+        return nodes[step.index] ? [nodes[step.index]] : [];
+      case 'where':
+        return nodes.filter((node) => isObject(node.value) && node.value[step.name] === step.literal);
+      case 'first':
+        return nodes.slice(0, 1);
+      case 'last':
+        return nodes.slice(-1);
+    }
+  }, [{ value: resource }]);
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((item, index) => deepEqual(item, b[index]));
+  }
+  if (!isObject(a) || !isObject(b)) return false;
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every((key) => Object.hasOwn(b, key) && deepEqual(a[key], b[key]));
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
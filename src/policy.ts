@@ -0,0 +1,130 @@
+import type { JWTPayload } from 'jose';
+import type { AuthenticatedAccessToken } from './auth';
+import type { FHIRResource } from './db';
+
+export type Role = 'filer' | 'reviewer' | 'admin';
+
+export type SubjectIdentifier = { system?: string; value?: string };
+
+export type SearchDecision =
+  | { params: URLSearchParams; error?: undefined }
+  | { params?: undefined; error: string };
+
+// Claim values (from `roles` or `groups`) that grant each elevated role.
+const REVIEWER_CLAIMS = claimSet(process.env.RBAC_REVIEWER_CLAIMS ?? 'reviewer');
+const ADMIN_CLAIMS = claimSet(process.env.RBAC_ADMIN_CLAIMS ?? 'admin');
+
+// System callers act for no person, so they never hold the filer (or any other) role.
+export function rolesFor(auth: AuthenticatedAccessToken): Set<Role> {
+  if (auth.kind === 'system') return new Set();
+  return rolesForClaims(auth.payload);
+}
+
+export function rolesForClaims(payload: JWTPayload): Set<Role> {
+  const claimed = claimedGroups(payload);
+  const roles = new Set<Role>(['filer']);
+  if (claimed.some((value) => ADMIN_CLAIMS.has(value))) {
+    roles.add('admin');
+    roles.add('reviewer');
+  }
+  if (claimed.some((value) => REVIEWER_CLAIMS.has(value))) {
+    roles.add('reviewer');
+  }
+  return roles;
+}
+
+export function subjectIdentifierOf(resource: FHIRResource): SubjectIdentifier | undefined {
+  return (resource.subject as { identifier?: SubjectIdentifier } | undefined)?.identifier;
+}
+
+export function isCallerSubject(auth: AuthenticatedAccessToken, identifier: SubjectIdentifier | undefined): boolean {
+  return identifier?.system === auth.subjectSystem && identifier?.value === auth.subjectValue;
+}
+
+/**
+ * Filers see their own responses, reviewers and system integrations additionally see every
+ * completed filing, and administrators see everything. Questionnaires are public to any caller.
+ */
+export function canRead(auth: AuthenticatedAccessToken, resource: FHIRResource): boolean {
+  if (resource.resourceType !== 'QuestionnaireResponse') return true;
+  if (auth.kind === 'system') return resource.status === 'completed';
+  if (isCallerSubject(auth, subjectIdentifierOf(resource))) return true;
+  const roles = rolesFor(auth);
+  if (roles.has('admin')) return true;
+  return roles.has('reviewer') && resource.status === 'completed';
+}
+
+/**
+ * Only administrators manage Questionnaires and any other configured resource type.
+ * QuestionnaireResponse writes are open to every filer; ownership is enforced separately
+ * when the subject is bound. System callers are read-only.
+ */
+export function canWrite(auth: AuthenticatedAccessToken, resourceType: string): boolean {
+  if (auth.kind === 'system') return false;
+  if (resourceType === 'QuestionnaireResponse') return true;
+  return rolesFor(auth).has('admin');
+}
+
+/**
+ * Filers may delete their own drafts. Completed filings, like Questionnaires, can only be
+ * deleted by administrators. System callers never delete.
+ */
+export function canDelete(auth: AuthenticatedAccessToken, resource: FHIRResource): boolean {
+  if (auth.kind === 'system') return false;
+  if (rolesFor(auth).has('admin')) return true;
+  if (resource.resourceType !== 'QuestionnaireResponse') return false;
+  return !isCompletedFiling(resource) && isCallerSubject(auth, subjectIdentifierOf(resource));
+}
+
+export function isCompletedFiling(resource: FHIRResource): boolean {
+  return resource.resourceType === 'QuestionnaireResponse' && (resource.status === 'completed' || resource.status === 'amended');
+}
+
+export function scopeSearch(auth: AuthenticatedAccessToken, resourceType: string, searchParams: URLSearchParams): SearchDecision {
+  if (resourceType !== 'QuestionnaireResponse') return { params: searchParams };
+  if (auth.kind === 'system') return completedOnly(searchParams, 'System clients may only search completed QuestionnaireResponses');
+  const roles = rolesFor(auth);
+  if (roles.has('admin')) return { params: searchParams };
+
+  const own = `${auth.subjectSystem}|${auth.subjectValue}`;
+  const requested = searchParams.getAll('subject:identifier').filter(Boolean);
+  const ownOnly = requested.length > 0 && requested.every((raw) => raw === own || raw === auth.subjectValue);
+  const scoped = new URLSearchParams(searchParams);
+
+  if (ownOnly) {
+    scoped.set('subject:identifier', own);
+    return { params: scoped };
+  }
+
+  if (roles.has('reviewer')) {
+    return completedOnly(searchParams, 'Reviewers may only search completed QuestionnaireResponses of other subjects');
+  }
+
+  if (requested.length > 0) {
+    return { error: 'subject:identifier searches are limited to your own identifier' };
+  }
+  scoped.set('subject:identifier', own);
+  return { params: scoped };
+}
+
+function completedOnly(searchParams: URLSearchParams, error: string): SearchDecision {
+  const statuses = searchParams.getAll('status').filter(Boolean);
+  if (statuses.some((status) => status !== 'completed')) return { error };
+  const scoped = new URLSearchParams(searchParams);
+  scoped.set('status', 'completed');
+  return { params: scoped };
+}
+
+function claimedGroups(payload: JWTPayload): string[] {
+  return [payload.roles, payload.groups].flatMap((value) =>
+    Array.isArray(value)
+      ? value.filter((entry): entry is string => typeof entry === 'string')
+      : typeof value === 'string'
+      ? value.split(/[\s,]+/).filter(Boolean)
+      : []
+  );
+}
+
+function claimSet(raw: string): Set<string> {
+  return new Set(raw.split(',').map((value) => value.trim()).filter(Boolean));
+}
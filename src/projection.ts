@@ -0,0 +1,60 @@
+import type { FHIRResource } from './db';
+
+// Elements every projection keeps, whatever was asked for.
+const MANDATORY_ELEMENTS = ['resourceType', 'id', 'meta'];
+
+// Elements marked isSummary in the FHIR R4 definitions of the types the façade serves.
+const SUMMARY_ELEMENTS: Record<string, string[]> = {
+  Questionnaire: [
+    'implicitRules', 'url', 'identifier', 'version', 'name', 'title', 'status', 'experimental', 'subjectType',
+    'date', 'publisher', 'contact', 'useContext', 'jurisdiction', 'effectivePeriod', 'code'
+  ],
+  QuestionnaireResponse: [
+    'implicitRules', 'identifier', 'basedOn', 'partOf', 'questionnaire', 'status', 'subject', 'encounter', 'authored',
+    'author', 'source'
+  ]
+};
+
+const SUMMARY_MODES = ['true', 'false', 'text', 'data', 'count'];
+
+const SUBSETTED_TAG = {
+  system: 'http://terminology.hl7.org/CodeSystem/v3-ObservationValue',
+  code: 'SUBSETTED',
+  display: 'subsetted'
+};
+
+export function projectionError(params: URLSearchParams): string | null {
+  const summary = params.get('_summary');
+  if (summary && !SUMMARY_MODES.includes(summary)) {
+    return `_summary must be one of ${SUMMARY_MODES.join(', ')}`;
+  }
+  return null;
+}
+
+/**
+ * Applies `_summary` (which wins when both are given) or `_elements` to a resource. A
+ * trimmed resource is tagged SUBSETTED so it is never mistaken for, or saved over, the full one.
+ */
+export function projectResource(resource: FHIRResource, params: URLSearchParams): FHIRResource {
+  const summary = params.get('_summary');
+  const elements = (params.get('_elements') ?? '').split(',').map((element) => element.trim()).filter(Boolean);
+  let keep: (key: string) => boolean;
+  if (summary === 'true') {
+    const summaryElements = SUMMARY_ELEMENTS[resource.resourceType] ?? [];
+    keep = (key) => summaryElements.includes(key);
+  } else if (summary === 'text') {
+    keep = (key) => key === 'text';
+  } else if (summary === 'data') {
+    keep = (key) => key !== 'text';
+  } else if ((!summary || summary === 'false') && elements.length > 0) {
+    keep = (key) => elements.includes(key);
+  } else {
+    return resource;
+  }
+  const projected = Object.fromEntries(
+    Object.entries(resource).filter(([key]) => MANDATORY_ELEMENTS.includes(key) || keep(key))
+  ) as FHIRResource;
+  const meta = (resource.meta ?? {}) as { tag?: unknown[] };
+  projected.meta = { ...meta, tag: [...(meta.tag ?? []), SUBSETTED_TAG] };
+  return projected;
+}
@@ -0,0 +1,47 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+
+// Registry of revoked access-token ids (`jti`). The mock OIDC provider records revocations here
+// and verifyAuthorization rejects matching tokens. Entries are pruned once the token would have
+// expired anyway. With a store path the registry survives restarts, like the signing keys that
+// keep the revoked tokens' signatures valid.
+const revokedTokenIds = new Map<string, number>();
+let storePath: string | null = null;
+
+/** Loads revocations recorded by earlier runs from `path` and saves new ones there. */
+export function persistRevocationsAt(path: string | null) {
+  storePath = path;
+  if (!path || !existsSync(path)) return;
+  try {
+    const stored = JSON.parse(readFileSync(path, 'utf-8')) as Record<string, unknown>;
+    for (const [jti, exp] of Object.entries(stored)) {
+      if (typeof exp === 'number') revokedTokenIds.set(jti, exp);
+    }
+    pruneExpired();
+  } catch (error) {
+    console.warn(`Ignoring unreadable token revocation file ${path}`, error);
+  }
+}
+
+export function revokeTokenId(jti: string, expiresAtSeconds: number) {
+  revokedTokenIds.set(jti, expiresAtSeconds);
+  pruneExpired();
+  save();
+}
+
+export function isTokenRevoked(jti: unknown): boolean {
+  return typeof jti === 'string' && revokedTokenIds.has(jti);
+}
+
+function pruneExpired() {
+  const nowSeconds = Math.floor(Date.now() / 1000);
+  for (const [jti, exp] of revokedTokenIds) {
+    if (exp < nowSeconds) revokedTokenIds.delete(jti);
+  }
+}
+
+function save() {
+  if (!storePath) return;
+  mkdirSync(dirname(storePath), { recursive: true });
+  writeFileSync(storePath, JSON.stringify(Object.fromEntries(revokedTokenIds), null, 2), { mode: 0o600 });
+}
@@ -8,33 +8,72 @@ CREATE TABLE IF NOT EXISTS resources (
 CREATE INDEX IF NOT EXISTS idx_res_type
   ON resources (json_extract(json, '$.resourceType'));
 
-CREATE INDEX IF NOT EXISTS idx_questionnaire_url_version_status
-  ON resources (
-    json_extract(json, '$.resourceType'),
-    json_extract(json, '$.url'),
-    json_extract(json, '$.version'),
-    json_extract(json, '$.status')
-  );
-
-CREATE INDEX IF NOT EXISTS idx_qr_subject_identifier_status
-  ON resources (
-    json_extract(json, '$.resourceType'),
-    json_extract(json, '$.subject.identifier.system'),
-    json_extract(json, '$.subject.identifier.value'),
-    json_extract(json, '$.status')
-  );
-
-CREATE INDEX IF NOT EXISTS idx_qr_questionnaire_subject_status
-  ON resources (
-    json_extract(json, '$.resourceType'),
-    json_extract(json, '$.questionnaire'),
-    json_extract(json, '$.subject.identifier.system'),
-    json_extract(json, '$.subject.identifier.value'),
-    json_extract(json, '$.status')
-  );
-
-CREATE INDEX IF NOT EXISTS idx_qr_authored
-  ON resources (
-    json_extract(json, '$.resourceType'),
-    json_extract(json, '$.authored')
-  );
+-- Indexes for search parameters are generated from the registry in search_registry.ts
+-- (`idx_search_*`); these hand-written ones predate it.
+DROP INDEX IF EXISTS idx_questionnaire_url_version_status;
+DROP INDEX IF EXISTS idx_qr_subject_identifier_status;
+DROP INDEX IF EXISTS idx_qr_questionnaire_subject_status;
+DROP INDEX IF EXISTS idx_qr_authored;
+
+-- Values of string search parameters, one row per value, rewritten with every write to the
+-- resource that holds them. `param` is `{resourceType}.{name}`, e.g. `QuestionnaireResponse.gifts.sponsor`.
+-- `normalized` is lower-cased with accents stripped, for the default and `:contains` matches.
+CREATE TABLE IF NOT EXISTS string_index (
+  resource_id TEXT NOT NULL,
+  param       TEXT NOT NULL,
+  value       TEXT NOT NULL,
+  normalized  TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_string_normalized
+  ON string_index (param, normalized);
+
+CREATE INDEX IF NOT EXISTS idx_string_value
+  ON string_index (param, value);
+
+CREATE INDEX IF NOT EXISTS idx_string_resource
+  ON string_index (resource_id);
+
+-- Values of date search parameters as the UTC span they denote at their precision,
+-- [low, high) in epoch milliseconds, so `2025` and `2025-03-01T10:00:00+05:00` compare correctly.
+CREATE TABLE IF NOT EXISTS date_index (
+  resource_id TEXT NOT NULL,
+  param       TEXT NOT NULL,
+  low         INTEGER NOT NULL,
+  high        INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_date_low
+  ON date_index (param, low);
+
+CREATE INDEX IF NOT EXISTS idx_date_high
+  ON date_index (param, high);
+
+CREATE INDEX IF NOT EXISTS idx_date_resource
+  ON date_index (resource_id);
+
+-- Every write appends an immutable row here; `resources` holds the current version.
+CREATE TABLE IF NOT EXISTS resource_versions (
+  id            TEXT NOT NULL,
+  version_id    INTEGER NOT NULL,
+  resource_type TEXT NOT NULL,
+  method        TEXT NOT NULL,
+  last_updated  TEXT NOT NULL,
+  json          TEXT NOT NULL,
+  PRIMARY KEY (id, version_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_versions_type_updated
+  ON resource_versions (resource_type, last_updated);
+
+-- Who deleted which version and why; the DELETE row in resource_versions keeps the last content.
+CREATE TABLE IF NOT EXISTS tombstones (
+  id                 TEXT NOT NULL,
+  version_id         INTEGER NOT NULL,
+  resource_type      TEXT NOT NULL,
+  deleted_at         TEXT NOT NULL,
+  deleted_by         TEXT NOT NULL,
+  deleted_by_display TEXT,
+  reason             TEXT,
+  PRIMARY KEY (id, version_id)
+);
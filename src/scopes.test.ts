@@ -0,0 +1,45 @@
+import { describe, expect, test } from 'bun:test';
+import { hasScope, parseScopes, requiredScope } from './scopes';
+
+describe('parseScopes', () => {
+  test('reads v2 permission letters from the scope claim', () => {
+    const [grant] = parseScopes({ scope: 'user/QuestionnaireResponse.cruds' });
+    expect(grant.context).toBe('user');
+    expect(grant.resourceType).toBe('QuestionnaireResponse');
+    expect([...grant.permissions]).toEqual(['c', 'r', 'u', 'd', 's']);
+  });
+
+  test('maps v1 read, write and * onto v2 letters', () => {
+    const grants = parseScopes({ scope: 'user/Questionnaire.read system/QuestionnaireResponse.write user/*.*' });
+    expect(grants.map((grant) => [...grant.permissions].join(''))).toEqual(['rs', 'cud', 'cruds']);
+  });
+
+  test('accepts the scp array claim', () => {
+    expect(parseScopes({ scp: ['system/*.rs', 42] }).map((grant) => grant.context)).toEqual(['system']);
+  });
+
+  test('ignores patient scopes, query-narrowed scopes, out-of-order letters and other scopes', () => {
+    const scope = 'openid profile patient/Observation.rs user/QuestionnaireResponse.rs?status=completed user/Questionnaire.sr fhirUser';
+    expect(parseScopes({ scope })).toEqual([]);
+  });
+});
+
+describe('hasScope', () => {
+  test('matches the interaction letter and resource type, with * for any type', () => {
+    const payload = { scope: 'user/QuestionnaireResponse.rs system/*.r' };
+    expect(hasScope(payload, 'QuestionnaireResponse', 'search')).toBe(true);
+    expect(hasScope(payload, 'QuestionnaireResponse', 'update')).toBe(false);
+    expect(hasScope(payload, 'Questionnaire', 'read')).toBe(true);
+    expect(hasScope(payload, 'Questionnaire', 'search')).toBe(false);
+  });
+
+  test('system callers only use system scopes', () => {
+    const payload = { scope: 'user/QuestionnaireResponse.cruds' };
+    expect(hasScope(payload, 'QuestionnaireResponse', 'read', ['system'])).toBe(false);
+  });
+});
+
+test('requiredScope names the narrowest scope for an interaction', () => {
+  expect(requiredScope('QuestionnaireResponse', 'delete')).toBe('user/QuestionnaireResponse.d');
+  expect(requiredScope('Questionnaire', 'search', 'system')).toBe('system/Questionnaire.s');
+});
@@ -0,0 +1,79 @@
+import type { JWTPayload } from 'jose';
+
+export type Interaction = 'create' | 'read' | 'update' | 'delete' | 'search';
+
+export type ScopeContext = 'user' | 'system';
+
+type ScopeGrant = {
+  context: ScopeContext;
+  resourceType: string;
+  permissions: Set<string>;
+};
+
+const INTERACTION_CODES: Record<Interaction, string> = {
+  create: 'c',
+  read: 'r',
+  update: 'u',
+  delete: 'd',
+  search: 's'
+};
+
+// SMART v1 permission names expressed as v2 permission letters.
+const V1_PERMISSIONS: Record<string, string> = {
+  read: 'rs',
+  write: 'cud',
+  '*': 'cruds'
+};
+
+const SCOPE_PATTERN = /^(patient|user|system)\/([A-Za-z]+|\*)\.([a-z*]+)$/;
+
+/**
+ * Parses SMART App Launch scopes (`user/QuestionnaireResponse.cruds`,
+ * `system/*.rs`, v1 `user/Questionnaire.read`) from the `scope` or `scp` claim.
+ * `patient/` scopes and scopes narrowed by query parameters are ignored: the façade
+ * has no patient compartment and does not evaluate scope-level search filters.
+ */
+export function parseScopes(payload: JWTPayload): ScopeGrant[] {
+  const raw = typeof payload.scope === 'string'
+    ? payload.scope.split(/\s+/)
+    : Array.isArray(payload.scp)
+    ? payload.scp.filter((entry): entry is string => typeof entry === 'string')
+    : [];
+  const grants: ScopeGrant[] = [];
+  for (const scope of raw) {
+    const match = scope.match(SCOPE_PATTERN);
+    if (!match) continue;
+    const [, context, resourceType, permission] = match;
+    if (context === 'patient') continue;
+    const letters = V1_PERMISSIONS[permission] ?? (/^c?r?u?d?s?$/.test(permission) ? permission : '');
+    if (!letters) continue;
+    grants.push({
+      context: context as ScopeGrant['context'],
+      resourceType,
+      permissions: new Set(letters.split(''))
+    });
+  }
+  return grants;
+}
+
+/**
+ * System callers (client_credentials tokens) only act on `system/` scopes; user tokens may
+ * hold either.
+ */
+export function hasScope(
+  payload: JWTPayload,
+  resourceType: string,
+  interaction: Interaction,
+  contexts: ScopeContext[] = ['user', 'system']
+): boolean {
+  const code = INTERACTION_CODES[interaction];
+  return parseScopes(payload).some((grant) =>
+    contexts.includes(grant.context) &&
+    (grant.resourceType === '*' || grant.resourceType === resourceType) &&
+    grant.permissions.has(code)
+  );
+}
+
+export function requiredScope(resourceType: string, interaction: Interaction, context: ScopeContext = 'user'): string {
+  return `${context}/${resourceType}.${INTERACTION_CODES[interaction]}`;
+}
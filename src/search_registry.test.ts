@@ -0,0 +1,61 @@
+import { describe, expect, test } from 'bun:test';
+import { DEFAULT_SEARCH_PARAMETERS, loadSearchParameters, searchParameterKeys, type SearchParameterDefinition } from './search_registry';
+
+const load = (entries: unknown) => loadSearchParameters(JSON.stringify(entries));
+
+const added = (entries: unknown) => load(entries).slice(DEFAULT_SEARCH_PARAMETERS.length);
+
+describe('loadSearchParameters', () => {
+  test('uses the built-in parameters when nothing is configured', () => {
+    expect(loadSearchParameters('')).toBe(DEFAULT_SEARCH_PARAMETERS);
+  });
+
+  test('fills in the canonical, documentation and expression of added parameters', () => {
+    const [path, linkId] = added([
+      { resourceType: 'Questionnaire', name: 'publisher', type: 'string', path: 'publisher', sortable: true },
+      { resourceType: 'QuestionnaireResponse', name: 'travel.destination', type: 'string', linkId: 'travel.destination' }
+    ]);
+    expect(path).toMatchObject({
+      definition: 'https://rfi.hl7.org/SearchParameter/Questionnaire-publisher',
+      expression: 'Questionnaire.publisher',
+      sortable: true
+    });
+    expect(linkId.definition).toBe('https://rfi.hl7.org/SearchParameter/QuestionnaireResponse-travel-destination');
+    expect(linkId.expression).toBe("QuestionnaireResponse.descendants().where(linkId='travel.destination').answer.value");
+  });
+
+  test('drops options that do not apply to the entry', () => {
+    const [parameter] = added([
+      { resourceType: 'QuestionnaireResponse', name: 'x', type: 'string', linkId: 'x', sortable: true, system: 'urn:x', modifierRequired: true }
+    ]);
+    expect(parameter.sortable).toBe(false);
+    expect(parameter.system).toBeUndefined();
+    expect(parameter.modifierRequired).toBe(false);
+  });
+
+  test('rejects entries that cannot be searched safely', () => {
+    const base = { resourceType: 'Questionnaire', name: 'publisher', type: 'string', path: 'publisher' };
+    expect(() => load([{ ...base, resourceType: 'questionnaire' }])).toThrow('needs a resourceType');
+    expect(() => load([{ ...base, type: 'number' }])).toThrow('type must be one of');
+    expect(() => load([{ ...base, path: "publisher') OR 1=1 --" }])).toThrow('needs either a dotted path or a linkId');
+    expect(() => load([{ ...base, linkId: 'publisher' }])).toThrow('needs either a dotted path or a linkId');
+    expect(() => load([{ ...base, path: undefined, linkId: 'publisher' }])).toThrow('must be QuestionnaireResponse string parameters');
+    expect(() => load([{ ...base, modifiers: ['not'] }])).toThrow('string parameters do not support not');
+    expect(() => load([{ ...base, name: 'status' }])).toThrow('redefines Questionnaire status');
+    expect(() => loadSearchParameters('./missing-search-parameters.json')).toThrow('file not found');
+  });
+});
+
+test('searchParameterKeys lists the bare name unless a modifier is required', () => {
+  const parameter: SearchParameterDefinition = {
+    resourceType: 'QuestionnaireResponse',
+    name: 'subject',
+    type: 'reference',
+    path: 'subject',
+    modifiers: ['identifier'],
+    definition: '',
+    documentation: ''
+  };
+  expect(searchParameterKeys(parameter)).toEqual(['subject', 'subject:identifier']);
+  expect(searchParameterKeys({ ...parameter, modifierRequired: true })).toEqual(['subject:identifier']);
+});
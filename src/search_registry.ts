@@ -0,0 +1,260 @@
+import { existsSync, readFileSync } from 'node:fs';
+
+export type SearchParameterType = 'token' | 'string' | 'date' | 'reference' | 'uri';
+
+/**
+ * One searchable element of one resource type. `path` is a dotted JSON path into the resource
+ * (`id` is the logical id); `linkId` instead names a Questionnaire item whose string answers are
+ * searched. `modifiers` may follow the name, e.g. `gifts.sponsor:contains`; with
+ * `modifierRequired` the bare name is not accepted. `system` is the code system of a token
+ * parameter's `code` element, matched by `system|code` searches. Parameters the façade defines
+ * itself carry a FHIRPath `expression` and are published as SearchParameter resources at `definition`.
+ */
+export type SearchParameterDefinition = {
+  resourceType: string;
+  name: string;
+  type: SearchParameterType;
+  path?: string;
+  linkId?: string;
+  modifiers?: string[];
+  modifierRequired?: boolean;
+  sortable?: boolean;
+  system?: string;
+  definition: string;
+  documentation: string;
+  expression?: string;
+};
+
+const TYPES: SearchParameterType[] = ['token', 'string', 'date', 'reference', 'uri'];
+
+// Modifiers FHIRStore.search implements for each parameter type.
+const MODIFIERS: Record<SearchParameterType, string[]> = {
+  token: ['not', 'missing'],
+  string: ['exact', 'contains', 'missing'],
+  date: ['missing'],
+  reference: ['identifier', 'missing'],
+  uri: ['missing']
+};
+
+const OWN_CANONICAL_BASE = 'https://rfi.hl7.org/SearchParameter';
+const CORE_CANONICAL_BASE = 'http://hl7.org/fhir/SearchParameter';
+
+// Paths are spliced into SQL JSON paths and index definitions, so only plain member names pass.
+const PATH_PATTERN = /^[A-Za-z][A-Za-z0-9]*(\.[A-Za-z][A-Za-z0-9]*)*$/;
+const NAME_PATTERN = /^_?[A-Za-z][A-Za-z0-9_.-]*$/;
+
+const lastUpdated = (resourceType: string): SearchParameterDefinition => ({
+  resourceType,
+  name: '_lastUpdated',
+  type: 'date',
+  path: 'meta.lastUpdated',
+  sortable: true,
+  definition: `${CORE_CANONICAL_BASE}/Resource-lastUpdated`,
+  documentation: 'When the current version was written; compared like other dates'
+});
+
+const STATUS_SYSTEMS: Record<string, string> = {
+  Questionnaire: 'http://hl7.org/fhir/publication-status',
+  QuestionnaireResponse: 'http://hl7.org/fhir/questionnaire-answers-status'
+};
+
+const status = (resourceType: string): SearchParameterDefinition => ({
+  resourceType,
+  name: 'status',
+  type: 'token',
+  path: 'status',
+  modifiers: ['not', 'missing'],
+  sortable: true,
+  system: STATUS_SYSTEMS[resourceType],
+  definition: `${CORE_CANONICAL_BASE}/${resourceType}-status`,
+  documentation: 'Status code, optionally as system|code'
+});
+
+// A string parameter over the answers to one item of the financial interests Questionnaire.
+const answer = (linkId: string, description: string): SearchParameterDefinition =>
+  ownParameter({
+    resourceType: 'QuestionnaireResponse',
+    name: linkId,
+    type: 'string',
+    linkId,
+    modifiers: ['exact', 'contains', 'missing'],
+    documentation: `${description}, from the answers to item ${linkId}`
+  });
+
+export const DEFAULT_SEARCH_PARAMETERS: SearchParameterDefinition[] = [
+  lastUpdated('Questionnaire'),
+  {
+    resourceType: 'Questionnaire',
+    name: '_id',
+    type: 'token',
+    path: 'id',
+    modifiers: ['not'],
+    definition: `${CORE_CANONICAL_BASE}/Resource-id`,
+    documentation: 'Logical id'
+  },
+  status('Questionnaire'),
+  {
+    resourceType: 'Questionnaire',
+    name: 'url',
+    type: 'uri',
+    path: 'url',
+    modifiers: ['missing'],
+    definition: `${CORE_CANONICAL_BASE}/Questionnaire-url`,
+    documentation: 'Exact match on the canonical URL'
+  },
+  {
+    resourceType: 'Questionnaire',
+    name: 'version',
+    type: 'token',
+    path: 'version',
+    modifiers: ['not', 'missing'],
+    sortable: true,
+    definition: `${CORE_CANONICAL_BASE}/Questionnaire-version`,
+    documentation: 'Exact match on the business version'
+  },
+  lastUpdated('QuestionnaireResponse'),
+  status('QuestionnaireResponse'),
+  {
+    resourceType: 'QuestionnaireResponse',
+    name: 'subject',
+    type: 'reference',
+    path: 'subject',
+    modifiers: ['identifier'],
+    modifierRequired: true,
+    definition: `${CORE_CANONICAL_BASE}/QuestionnaireResponse-subject`,
+    documentation: 'Only subject:identifier=[system|]value is supported'
+  },
+  {
+    resourceType: 'QuestionnaireResponse',
+    name: 'questionnaire',
+    type: 'reference',
+    path: 'questionnaire',
+    modifiers: ['missing'],
+    definition: `${CORE_CANONICAL_BASE}/QuestionnaireResponse-questionnaire`,
+    documentation: 'Canonical URL, optionally with |version; without a version every version matches'
+  },
+  {
+    resourceType: 'QuestionnaireResponse',
+    name: 'authored',
+    type: 'date',
+    path: 'authored',
+    modifiers: ['missing'],
+    sortable: true,
+    definition: `${CORE_CANONICAL_BASE}/QuestionnaireResponse-authored`,
+    documentation: 'When the answers were gathered'
+  },
+  ownParameter({
+    resourceType: 'QuestionnaireResponse',
+    name: 'version',
+    type: 'token',
+    path: 'meta.versionId',
+    sortable: true,
+    documentation: 'Version of the response (meta.versionId); sorts by number'
+  }),
+  answer('roles.entityName', 'Entity in which a professional role is held'),
+  answer('financial.fundingSource', 'Source of research or other funding'),
+  answer('ownerships.entityName', 'Entity in which an ownership interest is held'),
+  answer('gifts.sponsor', 'Sponsor of travel, gifts or hospitality')
+];
+
+/**
+ * The registry is the built-in parameters plus any from `FHIR_SEARCH_PARAMETERS`, which may
+ * hold either a JSON array or the path of a JSON file containing one. Each entry needs a
+ * `resourceType`, `name`, `type` and either a `path` or (for QuestionnaireResponse) a `linkId`;
+ * `definition`, `documentation` and `expression` are filled in when omitted.
+ */
+export function loadSearchParameters(source = process.env.FHIR_SEARCH_PARAMETERS): SearchParameterDefinition[] {
+  if (!source) return DEFAULT_SEARCH_PARAMETERS;
+  const raw = source.trim().startsWith('[') ? source : readRegistryFile(source);
+  const parsed = JSON.parse(raw) as unknown;
+  if (!Array.isArray(parsed)) throw new Error('FHIR_SEARCH_PARAMETERS must be a JSON array');
+  const registry = [...DEFAULT_SEARCH_PARAMETERS];
+  parsed.forEach((entry, index) => {
+    const parameter = validateEntry((entry ?? {}) as Partial<SearchParameterDefinition>, index);
+    if (registry.some((existing) => existing.resourceType === parameter.resourceType && existing.name === parameter.name)) {
+      throw new Error(`FHIR_SEARCH_PARAMETERS[${index}] redefines ${parameter.resourceType} ${parameter.name}`);
+    }
+    registry.push(parameter);
+  });
+  return registry;
+}
+
+export const SEARCH_PARAMETER_REGISTRY = loadSearchParameters();
+
+export function searchParametersFor(resourceType: string): SearchParameterDefinition[] {
+  return SEARCH_PARAMETER_REGISTRY.filter((parameter) => parameter.resourceType === resourceType);
+}
+
+// Resource types the façade serves are exactly those with registered search parameters.
+export function searchResourceTypes(): string[] {
+  return [...new Set(SEARCH_PARAMETER_REGISTRY.map((parameter) => parameter.resourceType))];
+}
+
+export function sortParametersFor(resourceType: string): SearchParameterDefinition[] {
+  return searchParametersFor(resourceType).filter((parameter) => parameter.sortable && parameter.path);
+}
+
+// The query parameters clients may send for a parameter, e.g. `subject:identifier` or `gifts.sponsor:contains`.
+export function searchParameterKeys(parameter: SearchParameterDefinition): string[] {
+  const modified = (parameter.modifiers ?? []).map((modifier) => `${parameter.name}:${modifier}`);
+  return parameter.modifierRequired ? modified : [parameter.name, ...modified];
+}
+
+function validateEntry(entry: Partial<SearchParameterDefinition>, index: number): SearchParameterDefinition {
+  const at = `FHIR_SEARCH_PARAMETERS[${index}]`;
+  if (typeof entry.resourceType !== 'string' || !/^[A-Z][A-Za-z]+$/.test(entry.resourceType)) {
+    throw new Error(`${at} needs a resourceType`);
+  }
+  if (typeof entry.name !== 'string' || !NAME_PATTERN.test(entry.name)) {
+    throw new Error(`${at} needs a name made of letters, digits, '_', '.' or '-'`);
+  }
+  if (!entry.type || !TYPES.includes(entry.type)) {
+    throw new Error(`${at} type must be one of ${TYPES.join(', ')}`);
+  }
+  const hasPath = typeof entry.path === 'string' && PATH_PATTERN.test(entry.path);
+  const hasLinkId = typeof entry.linkId === 'string' && entry.linkId.length > 0 && !entry.linkId.includes("'");
+  if (hasPath === hasLinkId) {
+    throw new Error(`${at} needs either a dotted path or a linkId`);
+  }
+  if (hasLinkId && (entry.resourceType !== 'QuestionnaireResponse' || entry.type !== 'string')) {
+    throw new Error(`${at} linkId parameters must be QuestionnaireResponse string parameters`);
+  }
+  const modifiers = Array.isArray(entry.modifiers) ? entry.modifiers : [];
+  const unsupported = modifiers.filter((modifier) => !MODIFIERS[entry.type as SearchParameterType].includes(modifier));
+  if (unsupported.length > 0) {
+    throw new Error(`${at} ${entry.type} parameters do not support ${unsupported.join(', ')}`);
+  }
+  return ownParameter({
+    resourceType: entry.resourceType,
+    name: entry.name,
+    type: entry.type,
+    path: hasPath ? entry.path : undefined,
+    linkId: hasLinkId ? entry.linkId : undefined,
+    modifiers: modifiers.length > 0 ? modifiers : undefined,
+    modifierRequired: entry.modifierRequired === true && modifiers.length > 0,
+    sortable: entry.sortable === true && hasPath,
+    system: entry.type === 'token' && typeof entry.system === 'string' ? entry.system : undefined,
+    definition: typeof entry.definition === 'string' ? entry.definition : undefined,
+    documentation: typeof entry.documentation === 'string' ? entry.documentation : undefined,
+    expression: typeof entry.expression === 'string' ? entry.expression : undefined
+  });
+}
+
+// The façade's own parameters live under its canonical base and publish a FHIRPath expression.
+function ownParameter(
+  parameter: Omit<SearchParameterDefinition, 'definition' | 'documentation'> & { definition?: string; documentation?: string }
+): SearchParameterDefinition {
+  return {
+    ...parameter,
+    definition: parameter.definition ?? `${OWN_CANONICAL_BASE}/${parameter.resourceType}-${parameter.name.replace(/\./g, '-')}`,
+    documentation: parameter.documentation ?? `${parameter.type} search on ${parameter.path ?? `the answers to item ${parameter.linkId}`}`,
+    expression: parameter.expression ?? (parameter.linkId
+      ? `${parameter.resourceType}.descendants().where(linkId='${parameter.linkId}').answer.value`
+      : `${parameter.resourceType}.${parameter.path}`)
+  };
+}
+
+function readRegistryFile(path: string) {
+  if (!existsSync(path)) throw new Error(`FHIR_SEARCH_PARAMETERS file not found: ${path}`);
+  return readFileSync(path, 'utf-8');
+}
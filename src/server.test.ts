@@ -0,0 +1,469 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { createHash } from 'node:crypto';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { Subprocess } from 'bun';
+import type { FHIRResource } from './db';
+
+// server.ts starts listening when it is loaded, so it runs as a child process with mock
+// sign-in against a throwaway data directory.
+const PORT = 40000 + Math.floor(Math.random() * 10000);
+const BASE = `http://localhost:${PORT}`;
+const QUESTIONNAIRE = 'https://rfi.hl7.org/Questionnaire/annual-submission';
+const FILER_SCOPE = 'openid user/Questionnaire.rs user/QuestionnaireResponse.cruds';
+const VERIFIER = 'server-test-verifier-0123456789-abcdefghijklmnopqrstuvwxyz';
+
+const dataDir = mkdtempSync(join(tmpdir(), 'fhir-server-test-'));
+let server: Subprocess;
+
+type Reply = { status: number; headers: Headers; body: FHIRResource | null };
+
+beforeAll(async () => {
+  server = Bun.spawn([process.execPath, 'run', join(import.meta.dir, 'server.ts')], {
+    cwd: dataDir,
+    env: { ...process.env, PORT: String(PORT), APP_BASE_URL: BASE, MOCK_AUTH: 'true', FHIR_DB_PATH: join(dataDir, 'fhir.db') },
+    stdout: 'ignore',
+    stderr: 'ignore'
+  });
+  for (let attempt = 0; attempt < 100; attempt++) {
+    if (await fetch(`${BASE}/health`).then((response) => response.ok, () => false)) return;
+    await Bun.sleep(100);
+  }
+  throw new Error('The server did not start');
+}, 20_000);
+
+afterAll(async () => {
+  server.kill();
+  await server.exited;
+  rmSync(dataDir, { recursive: true, force: true });
+});
+
+// Signs in through the mock provider's authorization code flow and returns the access token.
+async function login(claims: Record<string, unknown>, scope = FILER_SCOPE): Promise<string> {
+  const params = new URLSearchParams({
+    redirect_uri: `${BASE}/`,
+    client_id: 'mock-client',
+    state: 'test',
+    scope,
+    mock_jwk_claims: Buffer.from(JSON.stringify(claims)).toString('base64url'),
+    code_challenge: createHash('sha256').update(VERIFIER).digest('base64url'),
+    code_challenge_method: 'S256'
+  });
+  const authorized = await fetch(`${BASE}/mock-oidc/authorize?${params}`, { redirect: 'manual' });
+  const code = new URL(authorized.headers.get('location')!).searchParams.get('code')!;
+  const form = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: `${BASE}/`,
+    client_id: 'mock-client',
+    code_verifier: VERIFIER
+  });
+  const tokens = (await (await fetch(`${BASE}/mock-oidc/token`, { method: 'POST', body: form })).json()) as { access_token: string };
+  return tokens.access_token;
+}
+
+async function fhir(token: string | null, method: string, path: string, body?: unknown, headers: Record<string, string> = {}): Promise<Reply> {
+  const response = await fetch(`${BASE}/fhir/${path}`, {
+    method,
+    headers: {
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...(body === undefined ? {} : { 'Content-Type': 'application/fhir+json' }),
+      ...headers
+    },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+  const text = await response.text();
+  return { status: response.status, headers: response.headers, body: text ? (JSON.parse(text) as FHIRResource) : null };
+}
+
+const draft = (extra: Record<string, unknown> = {}): FHIRResource => ({
+  resourceType: 'QuestionnaireResponse',
+  questionnaire: QUESTIONNAIRE,
+  status: 'in-progress',
+  ...extra
+});
+
+const ids = (bundle: FHIRResource | null) => ((bundle?.entry ?? []) as { resource: FHIRResource }[]).map((entry) => entry.resource.id);
+
+let alice: string;
+let bob: string;
+
+beforeAll(async () => {
+  alice = await login({ sub: 'alice', name: 'Alice' });
+  bob = await login({ sub: 'bob', name: 'Bob' });
+});
+
+describe('authentication', () => {
+  test('requests without a bearer token are challenged', async () => {
+    const reply = await fhir(null, 'GET', 'QuestionnaireResponse');
+    expect(reply.status).toBe(401);
+    expect(reply.headers.get('www-authenticate')).toBe('Bearer realm="fhir"');
+    expect(reply.body?.resourceType).toBe('OperationOutcome');
+  });
+
+  test('tokens that fail verification are refused as invalid_token', async () => {
+    const reply = await fhir(`${alice.slice(0, -4)}AAAA`, 'GET', 'QuestionnaireResponse');
+    expect(reply.status).toBe(401);
+    expect(reply.headers.get('www-authenticate')).toContain('error="invalid_token"');
+  });
+
+  test('searches only return the caller\'s own responses', async () => {
+    const mine = await fhir(alice, 'POST', 'QuestionnaireResponse', draft());
+    await fhir(bob, 'POST', 'QuestionnaireResponse', draft());
+    const search = await fhir(alice, 'GET', 'QuestionnaireResponse');
+    expect(search.status).toBe(200);
+    expect(ids(search.body)).toEqual([mine.body!.id]);
+  });
+});
+
+describe('subject binding', () => {
+  test('the subject is stamped from the token and may not name somebody else', async () => {
+    const created = await fhir(alice, 'POST', 'QuestionnaireResponse', draft());
+    expect((created.body?.subject as { identifier: { value: string } }).identifier.value).toBe('alice');
+    const impostor = await fhir(alice, 'POST', 'QuestionnaireResponse', draft({ subject: { identifier: { system: 'urn:other', value: 'bob' } } }));
+    expect(impostor.status).toBe(403);
+  });
+
+  test("another filer's response is not found by any interaction", async () => {
+    const id = (await fhir(alice, 'POST', 'QuestionnaireResponse', draft())).body!.id;
+    const path = `QuestionnaireResponse/${id}`;
+    const patch = [{ op: 'replace', path: '/status', value: 'stopped' }];
+    expect((await fhir(bob, 'GET', path)).status).toBe(404);
+    expect((await fhir(bob, 'PUT', path, draft({ id }))).status).toBe(404);
+    expect((await fhir(bob, 'PATCH', path, patch, { 'Content-Type': 'application/json-patch+json' })).status).toBe(404);
+    expect((await fhir(bob, 'DELETE', path)).status).toBe(404);
+    expect((await fhir(alice, 'GET', path)).body?.status).toBe('in-progress');
+  });
+});
+
+describe('roles', () => {
+  let reviewer: string;
+  let admin: string;
+
+  beforeAll(async () => {
+    reviewer = await login({ sub: 'rita', roles: ['reviewer'] });
+    admin = await login({ sub: 'ada', roles: ['admin'] }, 'openid user/*.cruds');
+  });
+
+  test('reviewers see completed filings of others but not their drafts', async () => {
+    const completed = (await fhir(bob, 'POST', 'QuestionnaireResponse', draft({ status: 'completed' }))).body!.id;
+    const inProgress = (await fhir(bob, 'POST', 'QuestionnaireResponse', draft())).body!.id;
+    expect((await fhir(reviewer, 'GET', `QuestionnaireResponse/${completed}`)).status).toBe(200);
+    expect((await fhir(reviewer, 'GET', `QuestionnaireResponse/${inProgress}`)).status).toBe(404);
+    const search = await fhir(reviewer, 'GET', 'QuestionnaireResponse?_count=200');
+    expect(ids(search.body)).toContain(completed);
+    expect(ids(search.body)).not.toContain(inProgress);
+    expect((await fhir(reviewer, 'GET', 'QuestionnaireResponse?status=in-progress')).status).toBe(403);
+  });
+
+  test('administrators see every response', async () => {
+    const inProgress = (await fhir(bob, 'POST', 'QuestionnaireResponse', draft())).body!.id;
+    expect((await fhir(admin, 'GET', `QuestionnaireResponse/${inProgress}`)).status).toBe(200);
+  });
+
+  test('only administrators modify Questionnaires, whatever the scopes granted', async () => {
+    const questionnaire = { resourceType: 'Questionnaire', status: 'draft', url: 'https://example.org/Questionnaire/test' };
+    const filer = await login({ sub: 'alice' }, 'openid user/*.cruds');
+    const forbidden = await fhir(filer, 'POST', 'Questionnaire', questionnaire);
+    expect(forbidden.status).toBe(403);
+    expect((forbidden.body?.issue as { diagnostics: string }[])[0].diagnostics).toBe('Only administrators may modify Questionnaire resources');
+    expect((await fhir(admin, 'POST', 'Questionnaire', questionnaire)).status).toBe(201);
+  });
+});
+
+describe('versions', () => {
+  test('every write gets a new versionId that vread and _history return', async () => {
+    const created = await fhir(alice, 'POST', 'QuestionnaireResponse', draft());
+    const id = created.body!.id;
+    expect(created.headers.get('etag')).toBe('W/"1"');
+    const updated = await fhir(alice, 'PUT', `QuestionnaireResponse/${id}`, draft({ id, status: 'stopped' }));
+    expect((updated.body?.meta as { versionId: string }).versionId).toBe('2');
+    expect((await fhir(alice, 'GET', `QuestionnaireResponse/${id}/_history/1`)).body?.status).toBe('in-progress');
+    expect((await fhir(alice, 'GET', `QuestionnaireResponse/${id}/_history/3`)).status).toBe(404);
+    const history = await fhir(alice, 'GET', `QuestionnaireResponse/${id}/_history`);
+    expect(history.body?.type).toBe('history');
+    expect((history.body?.entry as { request: { method: string } }[]).map((entry) => entry.request.method)).toEqual(['PUT', 'POST']);
+  });
+
+  test("another filer's history is not found", async () => {
+    const id = (await fhir(alice, 'POST', 'QuestionnaireResponse', draft())).body!.id;
+    expect((await fhir(bob, 'GET', `QuestionnaireResponse/${id}/_history`)).status).toBe(404);
+    expect((await fhir(bob, 'GET', `QuestionnaireResponse/${id}/_history/1`)).status).toBe(404);
+  });
+});
+
+describe('If-Match', () => {
+  test('a stale version is refused with 412 and the current ETag', async () => {
+    const id = (await fhir(alice, 'POST', 'QuestionnaireResponse', draft())).body!.id;
+    const path = `QuestionnaireResponse/${id}`;
+    expect((await fhir(alice, 'PUT', path, draft({ id, status: 'stopped' }), { 'If-Match': 'W/"1"' })).status).toBe(200);
+    const stale = await fhir(alice, 'PUT', path, draft({ id }), { 'If-Match': 'W/"1"' });
+    expect(stale.status).toBe(412);
+    expect(stale.headers.get('etag')).toBe('W/"2"');
+    expect((await fhir(alice, 'GET', path)).body?.status).toBe('stopped');
+  });
+
+  test('a malformed If-Match is refused with 400', async () => {
+    const id = (await fhir(alice, 'POST', 'QuestionnaireResponse', draft())).body!.id;
+    expect((await fhir(alice, 'PUT', `QuestionnaireResponse/${id}`, draft({ id }), { 'If-Match': '1' })).status).toBe(400);
+  });
+});
+
+describe('DELETE', () => {
+  test('a deleted draft answers 410 and deleting it again succeeds', async () => {
+    const id = (await fhir(alice, 'POST', 'QuestionnaireResponse', draft())).body!.id;
+    const path = `QuestionnaireResponse/${id}`;
+    expect((await fhir(alice, 'DELETE', path)).status).toBe(204);
+    expect((await fhir(alice, 'GET', path)).status).toBe(410);
+    expect((await fhir(alice, 'DELETE', path)).status).toBe(204);
+    const history = await fhir(alice, 'GET', `${path}/_history`);
+    expect((history.body?.entry as { request: { method: string } }[])[0].request.method).toBe('DELETE');
+  });
+
+  test('filers may not delete completed filings', async () => {
+    const id = (await fhir(alice, 'POST', 'QuestionnaireResponse', draft({ status: 'completed' }))).body!.id;
+    expect((await fhir(alice, 'DELETE', `QuestionnaireResponse/${id}`)).status).toBe(403);
+  });
+});
+
+test('the CapabilityStatement is readable without a token', async () => {
+  const reply = await fhir(null, 'GET', 'metadata');
+  expect(reply.status).toBe(200);
+  expect(reply.body?.resourceType).toBe('CapabilityStatement');
+});
+
+describe('OperationOutcome errors', () => {
+  const issues = (reply: Reply) => reply.body?.issue as { severity: string; code: string; diagnostics: string; expression?: string[] }[];
+
+  test('validation failures name the offending elements', async () => {
+    const reply = await fhir(alice, 'POST', 'QuestionnaireResponse', { resourceType: 'QuestionnaireResponse' });
+    expect(reply.status).toBe(400);
+    expect(reply.headers.get('content-type')).toBe('application/fhir+json');
+    expect(issues(reply).map((issue) => [issue.code, issue.expression])).toEqual([
+      ['required', ['QuestionnaireResponse.questionnaire']],
+      ['required', ['QuestionnaireResponse.status']]
+    ]);
+  });
+
+  test('bodies of the wrong type or that are not JSON are refused', async () => {
+    expect(issues(await fhir(alice, 'POST', 'QuestionnaireResponse', { resourceType: 'Patient' }))[0].code).toBe('invalid');
+    const unparsable = await fetch(`${BASE}/fhir/QuestionnaireResponse`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${alice}`, 'Content-Type': 'application/fhir+json' },
+      body: '{"resourceType":'
+    });
+    expect(unparsable.status).toBe(400);
+    expect(((await unparsable.json()) as FHIRResource).resourceType).toBe('OperationOutcome');
+  });
+
+  test('unknown resources, types and routes are not found', async () => {
+    expect(issues(await fhir(alice, 'GET', 'QuestionnaireResponse/unknown'))[0]).toMatchObject({ severity: 'error', code: 'not-found' });
+    expect(issues(await fhir(alice, 'GET', 'Patient'))[0].code).toBe('not-supported');
+    const route = await fhir(alice, 'POST', 'QuestionnaireResponse/some/thing', {});
+    expect(route.status).toBe(404);
+    expect(issues(route)[0].code).toBe('not-supported');
+  });
+});
+
+describe('conditional interactions', () => {
+  let carol: string;
+
+  beforeAll(async () => {
+    carol = await login({ sub: 'carol' });
+  });
+
+  test('If-None-Exist returns the existing match instead of a duplicate', async () => {
+    const body = draft({ authored: '2030-01-01' });
+    const first = await fhir(carol, 'POST', 'QuestionnaireResponse', body, { 'If-None-Exist': 'authored=2030-01-01' });
+    const second = await fhir(carol, 'POST', 'QuestionnaireResponse', body, { 'If-None-Exist': 'authored=2030-01-01' });
+    expect([first.status, second.status]).toEqual([201, 200]);
+    expect(second.body?.id).toBe(first.body?.id);
+  });
+
+  test('a conditional update creates once and then updates the match', async () => {
+    const created = await fhir(carol, 'PUT', 'QuestionnaireResponse?authored=2030-02-01', draft({ authored: '2030-02-01' }));
+    const updated = await fhir(carol, 'PUT', 'QuestionnaireResponse?authored=2030-02-01', draft({ authored: '2030-02-01', status: 'stopped' }));
+    expect([created.status, updated.status]).toEqual([201, 200]);
+    expect(updated.body?.id).toBe(created.body?.id);
+  });
+
+  test('a conditional update only matches the caller\'s own filings', async () => {
+    await fhir(alice, 'POST', 'QuestionnaireResponse', draft({ authored: '2030-03-01' }));
+    expect((await fhir(carol, 'PUT', 'QuestionnaireResponse?authored=2030-03-01', draft({ authored: '2030-03-01' }))).status).toBe(201);
+  });
+
+  test('a conditional update refuses an existing id the search did not match', async () => {
+    const id = (await fhir(carol, 'POST', 'QuestionnaireResponse', draft())).body!.id;
+    const reply = await fhir(carol, 'PUT', 'QuestionnaireResponse?authored=2030-04-01', draft({ id, authored: '2030-04-01' }));
+    expect(reply.status).toBe(409);
+  });
+
+  test('several matches, unsupported parameters and missing criteria are refused', async () => {
+    await fhir(carol, 'POST', 'QuestionnaireResponse', draft({ authored: '2030-05-01' }));
+    await fhir(carol, 'POST', 'QuestionnaireResponse', draft({ authored: '2030-05-01' }));
+    expect((await fhir(carol, 'PUT', 'QuestionnaireResponse?authored=2030-05-01', draft())).status).toBe(412);
+    expect((await fhir(carol, 'DELETE', 'QuestionnaireResponse?authored=2030-05-01')).status).toBe(412);
+    expect((await fhir(carol, 'PUT', 'QuestionnaireResponse?text=x', draft())).status).toBe(400);
+    expect((await fhir(carol, 'PUT', 'QuestionnaireResponse', draft())).status).toBe(400);
+  });
+
+  test('a conditional delete removes the single match and succeeds when nothing matches', async () => {
+    const id = (await fhir(carol, 'POST', 'QuestionnaireResponse', draft({ authored: '2030-06-01' }))).body!.id;
+    expect((await fhir(carol, 'DELETE', 'QuestionnaireResponse?authored=2030-06-01')).status).toBe(204);
+    expect((await fhir(carol, 'GET', `QuestionnaireResponse/${id}`)).status).toBe(410);
+    expect((await fhir(carol, 'DELETE', 'QuestionnaireResponse?authored=2030-06-01')).status).toBe(204);
+  });
+});
+
+describe('_sort, _summary, _elements and _total', () => {
+  let dave: string;
+  const created: string[] = [];
+
+  // Three responses at versions 1, 2 and 11, authored in the opposite order.
+  beforeAll(async () => {
+    dave = await login({ sub: 'dave' });
+    for (const [authored, versions] of [['2024-03-01', 1], ['2024-02-01', 2], ['2024-01-01', 11]] as const) {
+      const id = (await fhir(dave, 'POST', 'QuestionnaireResponse', draft({ authored }))).body!.id!;
+      for (let version = 2; version <= versions; version++) {
+        await fhir(dave, 'PUT', `QuestionnaireResponse/${id}`, draft({ id, authored }));
+      }
+      created.push(id);
+    }
+  });
+
+  test('sorts by authored and by version, numerically, in either direction', async () => {
+    expect(ids((await fhir(dave, 'GET', 'QuestionnaireResponse?_sort=authored')).body)).toEqual([...created].reverse());
+    expect(ids((await fhir(dave, 'GET', 'QuestionnaireResponse?_sort=version')).body)).toEqual(created);
+    expect(ids((await fhir(dave, 'GET', 'QuestionnaireResponse?_sort=-version')).body)).toEqual([...created].reverse());
+  });
+
+  test('unsupported sort keys are refused', async () => {
+    expect((await fhir(dave, 'GET', 'QuestionnaireResponse?_sort=questionnaire')).status).toBe(400);
+  });
+
+  test('_summary=count, _elements and _total=none shape the Bundle', async () => {
+    const count = await fhir(dave, 'GET', 'QuestionnaireResponse?_summary=count');
+    expect(count.body?.total).toBe(3);
+    expect(count.body?.entry).toEqual([]);
+    const projected = await fhir(dave, 'GET', 'QuestionnaireResponse?_elements=authored&_count=1');
+    const [resource] = (projected.body?.entry as { resource: FHIRResource }[]).map((entry) => entry.resource);
+    expect(Object.keys(resource).sort()).toEqual(['authored', 'id', 'meta', 'resourceType']);
+    expect((await fhir(dave, 'GET', 'QuestionnaireResponse?_total=none')).body?.total).toBeUndefined();
+  });
+});
+
+describe('paging links', () => {
+  let erin: string;
+
+  beforeAll(async () => {
+    erin = await login({ sub: 'erin' });
+    for (let index = 0; index < 5; index++) {
+      await fhir(erin, 'POST', 'QuestionnaireResponse', draft({ authored: `2023-0${index + 1}-01` }));
+    }
+  });
+
+  // Follows `relation` links from the search until there are none, returning the ids of every page.
+  async function walk(search: string, relation: 'next' | 'previous', onPage?: () => Promise<unknown>): Promise<(string | undefined)[][]> {
+    const pages: (string | undefined)[][] = [];
+    let url: string | undefined = `${BASE}/fhir/${search}`;
+    while (url) {
+      const reply = await fhir(erin, 'GET', url.slice(`${BASE}/fhir/`.length));
+      expect(reply.status).toBe(200);
+      pages.push(ids(reply.body));
+      await onPage?.();
+      url = (reply.body?.link as { relation: string; url: string }[]).find((link) => link.relation === relation)?.url;
+    }
+    return pages;
+  }
+
+  test('next links visit every match once, even while earlier filings arrive', async () => {
+    const all = ids((await fhir(erin, 'GET', 'QuestionnaireResponse?_sort=authored')).body);
+    const pages = await walk('QuestionnaireResponse?_sort=authored&_count=2', 'next', () =>
+      fhir(erin, 'POST', 'QuestionnaireResponse', draft({ authored: '2022-01-01' }))
+    );
+    expect(pages).toEqual([all.slice(0, 2), all.slice(2, 4), all.slice(4)]);
+  });
+
+  test('cursors work for numeric sort keys and page backward from the last page', async () => {
+    const forward = (await walk('QuestionnaireResponse?_sort=version,authored&_count=3', 'next')).flat();
+    expect(new Set(forward).size).toBe(forward.length);
+    const search = await fhir(erin, 'GET', 'QuestionnaireResponse?_sort=version,authored&_count=3');
+    const last = (search.body?.link as { relation: string; url: string }[]).find((link) => link.relation === 'last')!.url;
+    const backward = (await walk(last.slice(`${BASE}/fhir/`.length), 'previous')).reverse().flat();
+    expect(backward).toEqual(forward);
+  });
+
+  test('a cursor is only accepted with the _sort it was issued for', async () => {
+    const search = await fhir(erin, 'GET', 'QuestionnaireResponse?_sort=version&_count=1');
+    const next = new URL((search.body?.link as { relation: string; url: string }[]).find((link) => link.relation === 'next')!.url);
+    next.searchParams.set('_sort', 'authored');
+    expect((await fhir(erin, 'GET', `QuestionnaireResponse${next.search}`)).status).toBe(400);
+  });
+});
+
+describe('answer search', () => {
+  let frank: string;
+  let reviewer: string;
+  const filings: Record<string, string> = {};
+
+  const answers = (group: string, linkId: string, value: string) => ({
+    item: [{ linkId: group, item: [{ linkId, answer: [{ valueString: value }] }] }]
+  });
+
+  beforeAll(async () => {
+    frank = await login({ sub: 'frank' });
+    reviewer = await login({ sub: 'rex', roles: ['reviewer'] });
+    const bodies: Record<string, FHIRResource> = {
+      acme: draft({ status: 'completed', ...answers('roles', 'roles.entityName', 'Acmé Holdings') }),
+      globex: draft({ status: 'completed', ...answers('gifts', 'gifts.sponsor', 'Globex Travel') }),
+      draft: draft(answers('roles', 'roles.entityName', 'Acme Draft Ltd'))
+    };
+    for (const [name, body] of Object.entries(bodies)) {
+      filings[name] = (await fhir(frank, 'POST', 'QuestionnaireResponse', body)).body!.id!;
+    }
+  });
+
+  test('matches the start of an answer, ignoring case and accents, or any part with :contains', async () => {
+    expect(ids((await fhir(frank, 'GET', 'QuestionnaireResponse?roles.entityName=acme')).body).sort()).toEqual(
+      [filings.acme, filings.draft].sort()
+    );
+    expect(ids((await fhir(frank, 'GET', 'QuestionnaireResponse?roles.entityName=holdings')).body)).toEqual([]);
+    expect(ids((await fhir(frank, 'GET', 'QuestionnaireResponse?roles.entityName:contains=holdings')).body)).toEqual([filings.acme]);
+    expect(ids((await fhir(frank, 'GET', 'QuestionnaireResponse?gifts.sponsor:exact=Globex Travel')).body)).toEqual([filings.globex]);
+    expect(ids((await fhir(frank, 'GET', 'QuestionnaireResponse?gifts.sponsor:exact=globex travel')).body)).toEqual([]);
+  });
+
+  test('answers are searched within what the caller may see', async () => {
+    expect(ids((await fhir(reviewer, 'GET', 'QuestionnaireResponse?roles.entityName=acme')).body)).toEqual([filings.acme]);
+    expect(ids((await fhir(alice, 'GET', 'QuestionnaireResponse?roles.entityName=acme')).body)).toEqual([]);
+  });
+
+  test('the answer parameters are published as SearchParameter resources', async () => {
+    const reply = await fhir(null, 'GET', 'SearchParameter?code=gifts.sponsor');
+    expect((reply.body?.entry as { resource: FHIRResource }[]).map((entry) => entry.resource.expression)).toEqual([
+      "QuestionnaireResponse.descendants().where(linkId='gifts.sponsor').answer.value"
+    ]);
+  });
+});
+
+describe('PATCH', () => {
+  const jsonPatch = { 'Content-Type': 'application/json-patch+json' };
+
+  test('applies a JSON Patch against the version named by If-Match', async () => {
+    const id = (await fhir(alice, 'POST', 'QuestionnaireResponse', draft())).body!.id;
+    const operations = [{ op: 'replace', path: '/status', value: 'stopped' }];
+    const patched = await fhir(alice, 'PATCH', `QuestionnaireResponse/${id}`, operations, { ...jsonPatch, 'If-Match': 'W/"1"' });
+    expect(patched.status).toBe(200);
+    expect(patched.body?.status).toBe('stopped');
+    const stale = await fhir(alice, 'PATCH', `QuestionnaireResponse/${id}`, operations, { ...jsonPatch, 'If-Match': 'W/"1"' });
+    expect(stale.status).toBe(412);
+  });
+
+  test('answers 400, 415 and 422 to patches the SPA replaces with a PUT', async () => {
+    const path = `QuestionnaireResponse/${(await fhir(alice, 'POST', 'QuestionnaireResponse', draft())).body!.id}`;
+    expect((await fhir(alice, 'PATCH', path, { op: 'remove' }, jsonPatch)).status).toBe(400);
+    expect((await fhir(alice, 'PATCH', path, [], { 'Content-Type': 'application/json' })).status).toBe(415);
+    expect((await fhir(alice, 'PATCH', path, [{ op: 'remove', path: '/authored' }], jsonPatch)).status).toBe(422);
+  });
+});
@@ -1,22 +1,56 @@
 import { Elysia } from 'elysia';
 import { existsSync, mkdirSync } from 'node:fs';
 import homepage from '../frontend/index.html';
-import { FHIRStore, type FHIRResource } from './db';
+import { FHIRStore, searchControlError, type FHIRHistoryEntry, type FHIRResource, type FHIRTombstone } from './db';
+import { searchParameterKeys, searchParametersFor, searchResourceTypes } from './search_registry';
 import { canonicalQuestionnaire, FI_CANONICAL_URL, FI_VERSION } from './questionnaire';
 import { registerMockOidc } from './mock_oidc';
+import { loadMockPersonas } from './mock_personas';
+import { discoverIssuerMetadata, verifyAuthorization, type AuthenticatedAccessToken } from './auth';
+import { buildCapabilityStatement, publishedSearchParameters } from './capability';
+import { publicIdentityProviders, registerTrustedIssuer, trustedIssuers } from './issuers';
+import { canDelete, canRead, canWrite, isCallerSubject, isCompletedFiling, rolesFor, scopeSearch, subjectIdentifierOf } from './policy';
+import { hasScope, requiredScope, type Interaction, type ScopeContext } from './scopes';
+import { loadMockClients } from './mock_clients';
+import { errorResponse, errorResult, operationOutcome, outcomeResult, toResponse, type InteractionResult, type OutcomeIssue } from './outcome';
+import { processBundle, type BundleEntryRequest } from './bundle';
+import { applyPatch, bundlePatchBody } from './patch';
+import { projectionError, projectResource } from './projection';
+import { questionnaireResponseInvariants } from './validation';
 
 const PORT = Number(process.env.PORT ?? 3000);
-const allowedResourceTypes = new Set(['Questionnaire', 'QuestionnaireResponse']);
+// Configured through the search parameter registry (FHIR_SEARCH_PARAMETERS).
+const allowedResourceTypes = new Set(searchResourceTypes());
 const APP_BASE_URL = process.env.APP_BASE_URL ?? `http://localhost:${PORT}`;
 const MOCK_MODE = process.env.MOCK_AUTH === 'true';
 const STATIC_MODE = process.env.STATIC_MODE === 'true';
 const MOCK_OIDC_BASE_PATH = '/mock-oidc';
 const MOCK_OIDC_ISSUER = `${APP_BASE_URL}${MOCK_OIDC_BASE_PATH}`;
+const ENFORCE_SMART_SCOPES = process.env.ENFORCE_SMART_SCOPES !== 'false';
+const MOCK_PERSONAS = MOCK_MODE ? loadMockPersonas() : [];
+
+const MOCK_OIDC_CLIENT_ID = process.env.OIDC_CLIENT_ID ?? 'mock-client';
+const STARTED_AT = new Date().toISOString();
 
 if (MOCK_MODE) {
-  process.env.OIDC_ISSUER = MOCK_OIDC_ISSUER;
-  process.env.OIDC_CLIENT_ID = process.env.OIDC_CLIENT_ID ?? 'mock-client';
-  process.env.OIDC_AUDIENCE = process.env.OIDC_CLIENT_ID;
+  // Mock tokens are trusted alongside any issuers listed in OIDC_ISSUERS (e.g. in staging).
+  registerTrustedIssuer({
+    id: 'mock',
+    label: 'Mock sign-in',
+    issuer: MOCK_OIDC_ISSUER,
+    audience: MOCK_OIDC_CLIENT_ID,
+    clientId: MOCK_OIDC_CLIENT_ID,
+    redirectUri: process.env.OIDC_REDIRECT_URI ?? null,
+    jwksUri: null,
+    // The JWKS is served in-process, so refetch immediately after a key rotation.
+    jwksCooldownMs: 0,
+    subjectClaim: 'sub',
+    displayClaims: ['name', 'preferred_username', 'email']
+  });
+}
+
+if (trustedIssuers().length === 0) {
+  console.warn('No trusted OIDC issuers configured; every /fhir request will be rejected');
 }
 
 if (!existsSync('./data')) {
@@ -30,98 +64,242 @@ seedCanonicalQuestionnaire(store);
 
 const app = new Elysia();
 
+// Unmatched /fhir routes and unexpected exceptions still answer with an OperationOutcome.
+app.onError(({ code, error, request }) => {
+  const { pathname } = new URL(request.url);
+  if (!pathname.startsWith('/fhir')) return;
+  if (code === 'NOT_FOUND') {
+    return errorResponse(404, 'not-supported', `No FHIR interaction matches ${request.method} ${pathname}`);
+  }
+  if (code === 'PARSE') {
+    return errorResponse(400, 'structure', 'The request body could not be parsed');
+  }
+  console.error(`Unhandled error for ${request.method} ${pathname}`, error);
+  return errorResponse(500, 'exception', 'The server failed to process the request');
+});
+
 if (MOCK_MODE) {
   registerMockOidc(app, {
     basePath: MOCK_OIDC_BASE_PATH,
-    issuer: process.env.OIDC_ISSUER ?? MOCK_OIDC_ISSUER,
-    defaultClientId: process.env.OIDC_CLIENT_ID ?? 'mock-client'
+    issuer: MOCK_OIDC_ISSUER,
+    defaultClientId: MOCK_OIDC_CLIENT_ID,
+    accessTokenTtlSeconds: process.env.MOCK_OIDC_TOKEN_TTL ? Number(process.env.MOCK_OIDC_TOKEN_TTL) : undefined,
+    personas: MOCK_PERSONAS,
+    clients: loadMockClients(),
+    keyStorePath: process.env.MOCK_OIDC_KEYS_PATH ?? './data/mock-oidc-keys.json',
+    revocationStorePath: process.env.MOCK_OIDC_REVOCATIONS_PATH ?? './data/mock-oidc-revocations.json',
+    signingAlg: process.env.MOCK_OIDC_SIGNING_ALG === 'ES256' ? 'ES256' : 'RS256',
+    keyGraceSeconds: process.env.MOCK_OIDC_KEY_GRACE_SECONDS ? Number(process.env.MOCK_OIDC_KEY_GRACE_SECONDS) : undefined
   });
 }
 
 app.get('/health', () => ({ ok: true }));
 
+// Like any FHIR server's metadata, the CapabilityStatement is readable without a token.
+app.get('/fhir/metadata', async () => {
+  const issuers = trustedIssuers();
+  const oauth = issuers[0] ? await discoverIssuerMetadata(issuers[0].issuer).catch(() => null) : null;
+  const statement = buildCapabilityStatement({
+    fhirBaseUrl: `${APP_BASE_URL}/fhir`,
+    routes: app.routes,
+    resourceTypes: allowedResourceTypes,
+    issuers,
+    oauth,
+    enforceSmartScopes: ENFORCE_SMART_SCOPES,
+    date: STARTED_AT
+  });
+  const headers = new Headers({ 'Content-Type': 'application/fhir+json' });
+  return new Response(JSON.stringify(statement), { status: 200, headers });
+});
+
+// The definitions of the façade's own search parameters are conformance resources too.
+app.get('/fhir/SearchParameter', ({ request }) => {
+  const { searchParams } = new URL(request.url);
+  const filters = ['_id', 'url', 'code', 'base'] as const;
+  const matches = publishedSearchParameters(allowedResourceTypes, STARTED_AT).filter((parameter) =>
+    filters.every((name) => {
+      const wanted = searchParams.get(name);
+      if (!wanted) return true;
+      const actual = name === '_id' ? parameter.id : parameter[name];
+      return Array.isArray(actual) ? actual.includes(wanted) : actual === wanted;
+    })
+  );
+  return toResponse({
+    status: 200,
+    resource: {
+      resourceType: 'Bundle',
+      type: 'searchset',
+      total: matches.length,
+      link: [{ relation: 'self', url: request.url }],
+      entry: matches.map((resource) => ({ fullUrl: `${APP_BASE_URL}/fhir/SearchParameter/${resource.id}`, resource }))
+    }
+  });
+});
+
+app.get('/fhir/SearchParameter/:id', ({ params }) => {
+  const resource = publishedSearchParameters(allowedResourceTypes, STARTED_AT).find((parameter) => parameter.id === params.id);
+  return toResponse(resource ? { status: 200, resource } : notFound('SearchParameter', params.id));
+});
+
+app.post('/fhir', async ({ request }) => {
+  const auth = await authenticate(request);
+  if (auth instanceof Response) return auth;
+  const body = (await safeJson(request)) as FHIRResource | null;
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return errorResponse(400, 'structure', 'The request body must be a JSON Bundle');
+  }
+  return toResponse(processBundle(body, {
+    store,
+    fhirBaseUrl: `${APP_BASE_URL}/fhir`,
+    execute: (entry) => executeBundleEntry(auth, entry)
+  }));
+});
+
 app.get('/fhir/:type', async ({ params, request }) => {
   const type = params.type;
   if (!allowedResourceTypes.has(type)) {
-    return new Response('Not Found', { status: 404 });
+    return toResponse(unsupportedType(type));
+  }
+  const auth = await authenticate(request);
+  if (auth instanceof Response) return auth;
+  return toResponse(searchInteraction(auth, type, new URL(request.url).searchParams, request.url));
+});
+
+app.get('/fhir/:type/_history', async ({ params, request }) => {
+  const type = params.type;
+  if (!allowedResourceTypes.has(type)) {
+    return toResponse(unsupportedType(type));
   }
+  const auth = await authenticate(request);
+  if (auth instanceof Response) return auth;
+  const scopeError = checkScope(auth, type, 'search');
+  if (scopeError) return toResponse(scopeError);
   const url = new URL(request.url);
-  const result = store.search(type, url.searchParams);
-  const bundle = toBundle(result, url.searchParams, request.url);
-  const headers = new Headers({ 'Content-Type': 'application/fhir+json' });
-  return new Response(JSON.stringify(bundle), { status: 200, headers });
+  const sinceError = validateSince(url.searchParams);
+  if (sinceError) return sinceError;
+  const entries = store.history(type, null, url.searchParams).filter((entry) => canRead(auth, entry.resource));
+  return historyResponse(entries, url.searchParams, request.url);
 });
 
-app.get('/fhir/:type/:id', async ({ params }) => {
+app.get('/fhir/:type/:id/_history', async ({ params, request }) => {
   const type = params.type;
   if (!allowedResourceTypes.has(type)) {
-    return new Response('Not Found', { status: 404 });
+    return toResponse(unsupportedType(type));
   }
-  const resource = store.get(type, params.id);
-  if (!resource) {
-    return new Response('Not Found', { status: 404 });
+  const auth = await authenticate(request);
+  if (auth instanceof Response) return auth;
+  const scopeError = checkScope(auth, type, 'read');
+  if (scopeError) return toResponse(scopeError);
+  const url = new URL(request.url);
+  const sinceError = validateSince(url.searchParams);
+  if (sinceError) return sinceError;
+  // Unreadable versions are hidden individually; with none left the resource does not exist for this caller.
+  const entries = store.history(type, params.id, url.searchParams).filter((entry) => canRead(auth, entry.resource));
+  if (entries.length === 0 && !store.history(type, params.id, new URLSearchParams()).some((entry) => canRead(auth, entry.resource))) {
+    return toResponse(notFound(type, params.id));
   }
-  const headers = new Headers({ 'Content-Type': 'application/fhir+json' });
-  return new Response(JSON.stringify(resource), { status: 200, headers });
+  return historyResponse(entries, url.searchParams, request.url);
 });
 
-app.post('/fhir/:type', async ({ params, request }) => {
+app.get('/fhir/:type/:id/_history/:vid', async ({ params, request }) => {
   const type = params.type;
   if (!allowedResourceTypes.has(type)) {
-    return new Response('Not Found', { status: 404 });
+    return toResponse(unsupportedType(type));
   }
-  const body = (await safeJson(request)) as FHIRResource | null;
-  if (!body || typeof body !== 'object') {
-    return new Response('Invalid body', { status: 400 });
+  const auth = await authenticate(request);
+  if (auth instanceof Response) return auth;
+  return toResponse(vreadInteraction(auth, type, params.id, params.vid));
+});
+
+app.get('/fhir/:type/:id', async ({ params, request }) => {
+  const type = params.type;
+  if (!allowedResourceTypes.has(type)) {
+    return toResponse(unsupportedType(type));
   }
-  if (body.resourceType !== type) {
-    return new Response('resourceType mismatch', { status: 400 });
+  const auth = await authenticate(request);
+  if (auth instanceof Response) return auth;
+  return toResponse(readInteraction(auth, type, params.id));
+});
+
+app.post('/fhir/:type', async ({ params, request }) => {
+  const type = params.type;
+  if (!allowedResourceTypes.has(type)) {
+    return toResponse(unsupportedType(type));
   }
-  if (type === 'QuestionnaireResponse') {
-    const error = enforceQuestionnaireResponseInvariants(body);
-    if (error) {
-      return new Response(error, { status: 400 });
-    }
+  const auth = await authenticate(request);
+  if (auth instanceof Response) return auth;
+  const body = (await safeJson(request)) as FHIRResource | null;
+  const result = createInteraction(auth, type, body, request.headers.get('if-none-exist'));
+  if (result.status === 201 && result.resource) {
+    result.headers?.set('Location', `/fhir/${type}/${result.resource.id}`);
   }
-  const created = store.create(body);
-  const headers = new Headers({
-    'Content-Type': 'application/fhir+json',
-    Location: `/fhir/${type}/${created.id}`
-  });
-  return new Response(JSON.stringify(created), {
-    status: 201,
-    headers
-  });
+  return toResponse(result);
 });
 
 app.put('/fhir/:type/:id', async ({ params, request }) => {
   const type = params.type;
   if (!allowedResourceTypes.has(type)) {
-    return new Response('Not Found', { status: 404 });
+    return toResponse(unsupportedType(type));
   }
+  const auth = await authenticate(request);
+  if (auth instanceof Response) return auth;
   const body = (await safeJson(request)) as FHIRResource | null;
-  if (!body || typeof body !== 'object') {
-    return new Response('Invalid body', { status: 400 });
+  const result = updateInteraction(auth, type, params.id, body, request.headers.get('if-match'));
+  if (result.status === 201) {
+    result.headers?.set('Location', `/fhir/${type}/${params.id}`);
   }
-  if (body.resourceType !== type) {
-    return new Response('resourceType mismatch', { status: 400 });
+  return toResponse(result);
+});
+
+app.patch('/fhir/:type/:id', async ({ params, request }) => {
+  const type = params.type;
+  if (!allowedResourceTypes.has(type)) {
+    return toResponse(unsupportedType(type));
   }
-  if (type === 'QuestionnaireResponse') {
-    const error = enforceQuestionnaireResponseInvariants(body);
-    if (error) {
-      return new Response(error, { status: 400 });
-    }
+  const auth = await authenticate(request);
+  if (auth instanceof Response) return auth;
+  const body = await safeJson(request);
+  const result = store.transaction(() =>
+    patchInteraction(auth, type, params.id, request.headers.get('content-type'), body, request.headers.get('if-match'))
+  );
+  return toResponse(result);
+});
+
+app.put('/fhir/:type', async ({ params, request }) => {
+  const type = params.type;
+  if (!allowedResourceTypes.has(type)) {
+    return toResponse(unsupportedType(type));
   }
-  const result = store.replace(type, params.id, body);
-  const headers = new Headers({ 'Content-Type': 'application/fhir+json' });
-  if (result.created) {
-    headers.set('Location', `/fhir/${type}/${params.id}`);
-    return new Response(JSON.stringify(result.resource), {
-      status: 201,
-      headers
-    });
+  const auth = await authenticate(request);
+  if (auth instanceof Response) return auth;
+  const body = (await safeJson(request)) as FHIRResource | null;
+  const searchParams = new URL(request.url).searchParams;
+  const result = conditionalUpdateInteraction(auth, type, searchParams, body, request.headers.get('if-match'));
+  if (result.status === 201 && result.resource) {
+    result.headers?.set('Location', `/fhir/${type}/${result.resource.id}`);
   }
-  return new Response(JSON.stringify(result.resource), { status: 200, headers });
+  return toResponse(result);
+});
+
+app.delete('/fhir/:type', async ({ params, request }) => {
+  const type = params.type;
+  if (!allowedResourceTypes.has(type)) {
+    return toResponse(unsupportedType(type));
+  }
+  const auth = await authenticate(request);
+  if (auth instanceof Response) return auth;
+  return toResponse(conditionalDeleteInteraction(auth, type, new URL(request.url).searchParams));
+});
+
+app.delete('/fhir/:type/:id', async ({ params, request }) => {
+  const type = params.type;
+  if (!allowedResourceTypes.has(type)) {
+    return toResponse(unsupportedType(type));
+  }
+  const auth = await authenticate(request);
+  if (auth instanceof Response) return auth;
+  const reason = new URL(request.url).searchParams.get('reason');
+  return toResponse(deleteInteraction(auth, type, params.id, reason));
 });
 
 const spaRoutes = ['/', '/form', '/form/*', '/history', '/history/*', '/public', '/public/*'];
@@ -145,6 +323,306 @@ const server = Bun.serve({
 
 console.log(`FHIR financial interests server running at http://localhost:${PORT}`);
 
+/*
+ * The interactions below are synchronous so that a transaction Bundle can run several of them
+ * inside one SQLite transaction. Routes and Bundle entries share them, with the same checks.
+ */
+
+function searchInteraction(auth: AuthenticatedAccessToken, type: string, searchParams: URLSearchParams, absoluteUrl: string): InteractionResult {
+  const scopeError = checkScope(auth, type, 'search');
+  if (scopeError) return scopeError;
+  const controlError = searchControlError(type, searchParams) ?? projectionError(searchParams);
+  if (controlError) {
+    return errorResult(400, 'invalid', controlError);
+  }
+  const scope = scopeSearch(auth, type, searchParams);
+  if (scope.error !== undefined) {
+    return errorResult(403, 'forbidden', scope.error);
+  }
+  const result = store.search(type, scope.params);
+  return { status: 200, resource: toBundle(result, searchParams, absoluteUrl) };
+}
+
+function readInteraction(auth: AuthenticatedAccessToken, type: string, id: string): InteractionResult {
+  const scopeError = checkScope(auth, type, 'read');
+  if (scopeError) return scopeError;
+  const resource = store.get(type, id);
+  if (!resource) {
+    const deleted = store.getDeleted(type, id);
+    if (deleted && canRead(auth, deleted.resource)) {
+      return errorResult(410, 'deleted', `${type}/${id} was deleted`, { headers: versionHeaders(deleted.resource) });
+    }
+    return notFound(type, id);
+  }
+  if (!canRead(auth, resource)) {
+    return notFound(type, id);
+  }
+  return { status: 200, resource, headers: versionHeaders(resource) };
+}
+
+function vreadInteraction(auth: AuthenticatedAccessToken, type: string, id: string, vid: string): InteractionResult {
+  const scopeError = checkScope(auth, type, 'read');
+  if (scopeError) return scopeError;
+  const version = store.getVersion(type, id, vid);
+  if (!version || !canRead(auth, version.resource)) {
+    return errorResult(404, 'not-found', `${type}/${id} has no version ${vid}`);
+  }
+  if (version.method === 'DELETE') {
+    return errorResult(410, 'deleted', `${type}/${id} version ${vid} is a deletion`, { headers: versionHeaders(version.resource) });
+  }
+  return { status: 200, resource: version.resource, headers: versionHeaders(version.resource) };
+}
+
+/** With `ifNoneExist` (a search query) an existing match is returned instead of creating a duplicate. */
+function createInteraction(
+  auth: AuthenticatedAccessToken,
+  type: string,
+  body: FHIRResource | null,
+  ifNoneExist: string | null = null
+): InteractionResult {
+  const scopeError = checkScope(auth, type, 'create');
+  if (scopeError) return scopeError;
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return errorResult(400, 'structure', 'The request body must be a JSON FHIR resource');
+  }
+  if (body.resourceType !== type) {
+    return errorResult(400, 'invalid', `Expected a ${type} resource but received ${body.resourceType ?? 'no resourceType'}`);
+  }
+  if (!canWrite(auth, type)) {
+    return writeForbidden(auth, type);
+  }
+  if (ifNoneExist !== null) {
+    const match = findConditionalMatch(auth, type, new URLSearchParams(ifNoneExist.replace(/^[^?]*\?/, '')), 'create');
+    if (match.error) return match.error;
+    if (match.resource) return { status: 200, resource: match.resource, headers: versionHeaders(match.resource) };
+  }
+  if (type === 'QuestionnaireResponse') {
+    const issues = questionnaireResponseInvariants(body);
+    if (issues.length > 0) {
+      return outcomeResult(400, issues);
+    }
+    const subjectError = bindSubjectToCaller(body, auth, null);
+    if (subjectError) return subjectError;
+  }
+  const created = store.create(body);
+  return { status: 201, resource: created, headers: versionHeaders(created) };
+}
+
+function updateInteraction(
+  auth: AuthenticatedAccessToken,
+  type: string,
+  id: string,
+  body: FHIRResource | null,
+  ifMatchHeader: string | null
+): InteractionResult {
+  const ifMatch = parseIfMatch(ifMatchHeader);
+  if (ifMatch === null) {
+    return errorResult(400, 'invalid', 'If-Match must be a version ETag such as W/"3"');
+  }
+  const existing = store.get(type, id);
+  // Re-creating a deleted resource is only open to whoever could have updated it.
+  const previous = existing ?? store.getDeleted(type, id)?.resource ?? null;
+  const scopeError = checkScope(auth, type, existing ? 'update' : 'create');
+  if (scopeError) return scopeError;
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return errorResult(400, 'structure', 'The request body must be a JSON FHIR resource');
+  }
+  if (body.resourceType !== type) {
+    return errorResult(400, 'invalid', `Expected a ${type} resource but received ${body.resourceType ?? 'no resourceType'}`);
+  }
+  if (!canWrite(auth, type)) {
+    return writeForbidden(auth, type);
+  }
+  if (type === 'QuestionnaireResponse') {
+    const issues = questionnaireResponseInvariants(body);
+    if (issues.length > 0) {
+      return outcomeResult(400, issues);
+    }
+    const subjectError = bindSubjectToCaller(body, auth, previous);
+    if (subjectError) return subjectError;
+  }
+  const result = store.replace(type, id, body, ifMatch);
+  if (result.conflict?.otherResourceType) {
+    return errorResult(409, 'conflict', `The id ${id} already belongs to a ${result.conflict.otherResourceType}`);
+  }
+  if (result.conflict) return versionConflict(type, id, result.conflict.currentVersionId);
+  return { status: result.created ? 201 : 200, resource: result.resource, headers: versionHeaders(result.resource) };
+}
+
+/**
+ * Applies a JSON Patch or FHIRPath Patch to the current version and saves the result as an
+ * update against that version, so it passes the same validation and cannot overwrite a newer
+ * write. With If-Match the patch is refused unless the resource is still at that version.
+ */
+function patchInteraction(
+  auth: AuthenticatedAccessToken,
+  type: string,
+  id: string,
+  contentType: string | null,
+  body: unknown,
+  ifMatchHeader: string | null
+): InteractionResult {
+  const scopeError = checkScope(auth, type, 'update');
+  if (scopeError) return scopeError;
+  const ifMatch = parseIfMatch(ifMatchHeader);
+  if (ifMatch === null) {
+    return errorResult(400, 'invalid', 'If-Match must be a version ETag such as W/"3"');
+  }
+  const existing = store.get(type, id);
+  if (!existing) {
+    const deleted = store.getDeleted(type, id);
+    if (deleted && canRead(auth, deleted.resource)) {
+      return errorResult(410, 'deleted', `${type}/${id} was deleted`, { headers: versionHeaders(deleted.resource) });
+    }
+    return notFound(type, id);
+  }
+  if (!canRead(auth, existing)) {
+    return notFound(type, id);
+  }
+  const current = (existing.meta as { versionId?: string } | undefined)?.versionId;
+  if (ifMatch !== undefined && ifMatch !== current) return versionConflict(type, id, current);
+  const patched = applyPatch(existing, contentType, body);
+  if (patched.error) return patched.error;
+  return updateInteraction(auth, type, id, patched.resource, current ? `W/"${current}"` : null);
+}
+
+function deleteInteraction(auth: AuthenticatedAccessToken, type: string, id: string, rawReason: string | null): InteractionResult {
+  const scopeError = checkScope(auth, type, 'delete');
+  if (scopeError) return scopeError;
+  const existing = store.get(type, id);
+  if (!existing) {
+    // Deleting an already deleted resource succeeds without recording another tombstone.
+    const deleted = store.getDeleted(type, id);
+    if (deleted && canRead(auth, deleted.resource)) {
+      return { status: 204, headers: versionHeaders(deleted.resource) };
+    }
+    return notFound(type, id);
+  }
+  if (!canRead(auth, existing)) {
+    return notFound(type, id);
+  }
+  if (!canDelete(auth, existing)) {
+    const message = isCompletedFiling(existing)
+      ? 'Only administrators may delete completed filings'
+      : `You may not delete ${type}/${id}`;
+    return errorResult(403, 'forbidden', message);
+  }
+  const reason = rawReason?.trim() || null;
+  if (!reason && isCompletedFiling(existing)) {
+    return errorResult(400, 'required', 'A reason is required to delete a completed filing (?reason=...)');
+  }
+  const deleted = store.delete(type, id, {
+    deletedBy: `${auth.subjectSystem}|${auth.subjectValue}`,
+    deletedByDisplay: auth.display,
+    reason
+  });
+  return { status: 204, headers: deleted ? versionHeaders(deleted.resource) : undefined };
+}
+
+/**
+ * PUT to a search: one match is updated, no match is created (at `body.id` when given and
+ * unused; an existing resource the search did not match is refused with 409) and several
+ * matches are refused with 412.
+ */
+function conditionalUpdateInteraction(
+  auth: AuthenticatedAccessToken,
+  type: string,
+  searchParams: URLSearchParams,
+  body: FHIRResource | null,
+  ifMatchHeader: string | null
+): InteractionResult {
+  const match = findConditionalMatch(auth, type, searchParams, 'update');
+  if (match.error) return match.error;
+  if (!match.resource) {
+    if (!body?.id) return createInteraction(auth, type, body);
+    if (store.get(type, String(body.id))) {
+      return errorResult(409, 'conflict', `${type}/${body.id} already exists but does not match the search`, {
+        expression: [`${type}.id`]
+      });
+    }
+    return updateInteraction(auth, type, String(body.id), body, ifMatchHeader);
+  }
+  if (body?.id && body.id !== match.resource.id) {
+    return errorResult(400, 'invalid', `${type}/${body.id} does not match the resource found by the search (${type}/${match.resource.id})`, {
+      expression: [`${type}.id`]
+    });
+  }
+  return updateInteraction(auth, type, match.resource.id!, body, ifMatchHeader);
+}
+
+// DELETE to a search: deleting nothing succeeds, like deleting an already deleted resource.
+function conditionalDeleteInteraction(auth: AuthenticatedAccessToken, type: string, searchParams: URLSearchParams): InteractionResult {
+  const criteria = new URLSearchParams(searchParams);
+  const reason = criteria.get('reason');
+  criteria.delete('reason');
+  const match = findConditionalMatch(auth, type, criteria, 'delete');
+  if (match.error) return match.error;
+  if (!match.resource) return { status: 204 };
+  return deleteInteraction(auth, type, match.resource.id!, reason);
+}
+
+type ConditionalMatch =
+  | { resource: FHIRResource | null; error?: undefined }
+  | { resource?: undefined; error: InteractionResult };
+
+/**
+ * Runs a conditional interaction's search as the caller would see it. Every parameter must be
+ * one the store understands, since silently ignoring one would widen the match.
+ */
+function findConditionalMatch(
+  auth: AuthenticatedAccessToken,
+  type: string,
+  searchParams: URLSearchParams,
+  interaction: 'create' | 'update' | 'delete'
+): ConditionalMatch {
+  const supported = new Set(searchParametersFor(type).flatMap(searchParameterKeys));
+  const keys = [...new Set(searchParams.keys())];
+  const unsupported = keys.filter((key) => !supported.has(key));
+  if (unsupported.length > 0) {
+    return { error: errorResult(400, 'not-supported', `Conditional ${interaction} cannot use ${unsupported.join(', ')} on ${type}`) };
+  }
+  if (![...searchParams.values()].some(Boolean)) {
+    return { error: errorResult(400, 'invalid', `Conditional ${interaction} needs search criteria for ${type}`) };
+  }
+  const valueError = searchControlError(type, searchParams);
+  if (valueError) {
+    return { error: errorResult(400, 'invalid', valueError) };
+  }
+  const scopeError = checkScope(auth, type, 'search');
+  if (scopeError) return { error: scopeError };
+  const scope = scopeSearch(auth, type, searchParams);
+  if (scope.error !== undefined) {
+    return { error: errorResult(403, 'forbidden', scope.error) };
+  }
+  const params = new URLSearchParams(scope.params);
+  params.set('_count', '1');
+  const result = store.search(type, params);
+  if ((result.total ?? 0) > 1) {
+    return { error: errorResult(412, 'multiple-matches', `Conditional ${interaction} matched ${result.total} ${type} resources; narrow the search`) };
+  }
+  return { resource: result.resources[0] ?? null };
+}
+
+function executeBundleEntry(auth: AuthenticatedAccessToken, entry: BundleEntryRequest): InteractionResult {
+  const [type, id, history, vid, ...rest] = entry.path;
+  if (!allowedResourceTypes.has(type)) {
+    return unsupportedType(type);
+  }
+  if (entry.method === 'GET' && !id) return searchInteraction(auth, type, entry.searchParams, `${APP_BASE_URL}/fhir/${entry.url}`);
+  if (entry.method === 'GET' && !history) return readInteraction(auth, type, id);
+  if (entry.method === 'GET' && history === '_history' && vid && rest.length === 0) return vreadInteraction(auth, type, id, vid);
+  if (entry.method === 'POST' && !id) return createInteraction(auth, type, entry.resource, entry.ifNoneExist);
+  if (entry.method === 'PUT' && !id) return conditionalUpdateInteraction(auth, type, entry.searchParams, entry.resource, entry.ifMatch);
+  if (entry.method === 'PUT' && !history) return updateInteraction(auth, type, id, entry.resource, entry.ifMatch);
+  if (entry.method === 'PATCH' && id && !history) {
+    const patch = bundlePatchBody(entry.resource);
+    return patchInteraction(auth, type, id, patch.contentType, patch.body, entry.ifMatch);
+  }
+  if (entry.method === 'DELETE' && !id) return conditionalDeleteInteraction(auth, type, entry.searchParams);
+  if (entry.method === 'DELETE' && !history) return deleteInteraction(auth, type, id, entry.searchParams.get('reason'));
+  return errorResult(400, 'not-supported', `${entry.method} ${entry.url} is not supported in a Bundle`);
+}
+
 async function safeJson(request: Request): Promise<unknown> {
   try {
     return await request.json();
@@ -153,17 +631,88 @@ async function safeJson(request: Request): Promise<unknown> {
   }
 }
 
-function enforceQuestionnaireResponseInvariants(resource: FHIRResource): string | null {
-  // TODO: ensure QuestionnaireResponse.subject is populated with the authenticated
-  //       participant once real authz is enforced. Today this acceptance endpoint
-  //       relies on upstream clients to set subject identifiers correctly.
-  if (!resource.questionnaire) {
-    return 'QuestionnaireResponse.questionnaire is required';
+async function authenticate(request: Request): Promise<AuthenticatedAccessToken | Response> {
+  const header = request.headers.get('authorization');
+  const auth = await verifyAuthorization(header);
+  if (auth) return auth;
+  // RFC 6750 §3: omit the error code when the request carried no credentials at all.
+  const challenge = header
+    ? 'Bearer realm="fhir", error="invalid_token", error_description="The access token is missing, expired or invalid"'
+    : 'Bearer realm="fhir"';
+  return errorResponse(401, 'login', header ? 'The access token is missing, expired or invalid' : 'A bearer access token is required', {
+    headers: { 'WWW-Authenticate': challenge }
+  });
+}
+
+function checkScope(auth: AuthenticatedAccessToken, type: string, interaction: Interaction): InteractionResult | null {
+  const contexts: ScopeContext[] = auth.kind === 'system' ? ['system'] : ['user', 'system'];
+  if (!ENFORCE_SMART_SCOPES || hasScope(auth.payload, type, interaction, contexts)) return null;
+  const scope = requiredScope(type, interaction, auth.kind === 'system' ? 'system' : 'user');
+  return errorResult(403, 'forbidden', `Access token lacks a scope permitting ${interaction} on ${type} (e.g. ${scope})`, {
+    headers: { 'WWW-Authenticate': `Bearer realm="fhir", error="insufficient_scope", scope="${scope}"` }
+  });
+}
+
+function writeForbidden(auth: AuthenticatedAccessToken, type: string): InteractionResult {
+  const message = auth.kind === 'system'
+    ? `System clients may not modify ${type} resources`
+    : `Only administrators may modify ${type} resources`;
+  return errorResult(403, 'forbidden', message);
+}
+
+function versionConflict(type: string, id: string, currentVersionId: string | null | undefined): InteractionResult {
+  return errorResult(
+    412,
+    'conflict',
+    currentVersionId
+      ? `${type}/${id} is at version ${currentVersionId}; reload it before saving`
+      : `${type}/${id} does not exist`,
+    { headers: currentVersionId ? { ETag: `W/"${currentVersionId}"` } : undefined }
+  );
+}
+
+function unsupportedType(type: string): InteractionResult {
+  return errorResult(404, 'not-supported', `Resource type ${type} is not supported`);
+}
+
+function notFound(type: string, id: string): InteractionResult {
+  return errorResult(404, 'not-found', `${type}/${id} is not known`);
+}
+
+/**
+ * Stamps the verified caller onto QuestionnaireResponse.subject. Clients may omit the
+ * subject entirely, but may not name somebody else or take over an existing response.
+ * Administrators may file for any subject, e.g. to re-home filings to a new identifier.
+ */
+function bindSubjectToCaller(
+  resource: FHIRResource,
+  auth: AuthenticatedAccessToken,
+  existing: FHIRResource | null
+): InteractionResult | null {
+  const supplied = subjectIdentifierOf(resource);
+  if (rolesFor(auth).has('admin')) {
+    if (supplied?.system && supplied?.value) return null;
+    if (!supplied?.system && !supplied?.value && existing) {
+      resource.subject = existing.subject;
+      return null;
+    }
   }
-  if (!resource.status) {
-    return 'QuestionnaireResponse.status is required';
+  if ((supplied?.system || supplied?.value) && !isCallerSubject(auth, supplied)) {
+    return errorResult(403, 'forbidden', 'QuestionnaireResponse.subject.identifier must identify the authenticated caller', {
+      expression: ['QuestionnaireResponse.subject.identifier']
+    });
   }
-  // TODO: align authored/identifier invariants with HL7 register policies.
+  if (existing && !isCallerSubject(auth, subjectIdentifierOf(existing))) {
+    // Like a read, a response the caller cannot see does not exist for them.
+    if (!canRead(auth, existing)) return notFound('QuestionnaireResponse', existing.id!);
+    return errorResult(403, 'forbidden', `QuestionnaireResponse/${existing.id} belongs to another subject and cannot be reassigned`);
+  }
+  const subject = (resource.subject ?? {}) as { display?: string };
+  resource.subject = {
+    ...subject,
+    identifier: { system: auth.subjectSystem, value: auth.subjectValue },
+    display: subject.display ?? auth.display ?? undefined
+  };
   return null;
 }
 
@@ -172,7 +721,7 @@ function seedCanonicalQuestionnaire(store: FHIRStore) {
   params.set('url', FI_CANONICAL_URL);
   params.set('version', FI_VERSION);
   const existing = store.search('Questionnaire', params);
-  if (existing.total > 0) return;
+  if (existing.resources.length > 0) return;
   store.create(canonicalQuestionnaire);
 }
 
@@ -181,14 +730,94 @@ function toBundle(result: ReturnType<FHIRStore['search']>, searchParams: URLSear
     resourceType: 'Bundle',
     type: 'searchset',
     total: result.total,
+    link: [
+      { relation: 'self', url: absoluteUrl },
+      ...(result.last
+        ? [
+            { relation: 'first', url: pageUrl(absoluteUrl) },
+            ...(result.previous ? [{ relation: 'previous', url: pageUrl(absoluteUrl, result.previous) }] : []),
+            ...(result.next ? [{ relation: 'next', url: pageUrl(absoluteUrl, result.next) }] : []),
+            { relation: 'last', url: pageUrl(absoluteUrl, result.last) }
+          ]
+        : [])
+    ],
+    entry: result.resources.map((resource) => ({ resource: projectResource(resource, searchParams) }))
+  } satisfies FHIRResource;
+}
+
+// The same search positioned at another page; without a cursor, the first page.
+function pageUrl(absoluteUrl: string, cursor?: string): string {
+  const url = new URL(absoluteUrl);
+  url.searchParams.delete('_page');
+  url.searchParams.delete('_cursor');
+  if (cursor) url.searchParams.set('_cursor', cursor);
+  return url.toString();
+}
+
+// Weak ETag (FHIR uses W/"versionId") and Last-Modified for a stored resource.
+function versionHeaders(resource: FHIRResource): Headers {
+  const headers = new Headers({ 'Content-Type': 'application/fhir+json' });
+  const meta = resource.meta as { versionId?: string; lastUpdated?: string } | undefined;
+  if (meta?.versionId) headers.set('ETag', `W/"${meta.versionId}"`);
+  if (meta?.lastUpdated) headers.set('Last-Modified', new Date(meta.lastUpdated).toUTCString());
+  return headers;
+}
+
+/**
+ * undefined when the header is absent, null when it is not a single version ETag. Weak and
+ * strong forms are both accepted since versions are only ever compared for equality.
+ */
+function parseIfMatch(header: string | null): string | undefined | null {
+  if (header === null) return undefined;
+  const match = header.trim().match(/^(?:W\/)?"([^"]+)"$/);
+  return match ? match[1] : null;
+}
+
+function deletionOutcome(tombstone: FHIRTombstone) {
+  const who = tombstone.deletedByDisplay ? `${tombstone.deletedByDisplay} (${tombstone.deletedBy})` : tombstone.deletedBy;
+  return operationOutcome([
+    { severity: 'information', code: 'deleted', diagnostics: `Deleted by ${who}${tombstone.reason ? `: ${tombstone.reason}` : ''}` }
+  ]);
+}
+
+function validateSince(searchParams: URLSearchParams): Response | null {
+  const since = searchParams.get('_since');
+  if (since && Number.isNaN(Date.parse(since))) {
+    return errorResponse(400, 'invalid', '_since must be a FHIR instant');
+  }
+  return null;
+}
+
+function historyResponse(entries: FHIRHistoryEntry[], searchParams: URLSearchParams, absoluteUrl: string) {
+  const count = Number(searchParams.get('_count'));
+  const limited = Number.isFinite(count) && count > 0 ? entries.slice(0, Math.min(Math.floor(count), 200)) : entries;
+  const bundle = {
+    resourceType: 'Bundle',
+    type: 'history',
+    total: entries.length,
     link: [
       {
         relation: 'self',
         url: absoluteUrl
       }
     ],
-    entry: result.resources.map((resource) => ({ resource }))
+    entry: limited.map((entry) => {
+      const location = `${entry.resource.resourceType}/${entry.resource.id}`;
+      return {
+        fullUrl: `${APP_BASE_URL}/fhir/${location}`,
+        resource: entry.method === 'DELETE' ? undefined : entry.resource,
+        request: { method: entry.method, url: entry.method === 'POST' ? entry.resource.resourceType : location },
+        response: {
+          status: entry.method === 'DELETE' ? '204 No Content' : entry.method === 'POST' ? '201 Created' : '200 OK',
+          location: `${location}/_history/${entry.versionId}`,
+          lastModified: entry.lastUpdated,
+          outcome: entry.tombstone ? deletionOutcome(entry.tombstone) : undefined
+        }
+      };
+    })
   } satisfies FHIRResource;
+  const headers = new Headers({ 'Content-Type': 'application/fhir+json' });
+  return new Response(JSON.stringify(bundle), { status: 200, headers });
 }
 
 function configResponse() {
@@ -209,17 +838,24 @@ function configJsonResponse() {
 }
 
 function currentConfig() {
+  const identityProviders = publicIdentityProviders().map((provider) => ({
+    ...provider,
+    redirectUri: provider.redirectUri ?? `${APP_BASE_URL}/`
+  }));
+  const defaultProvider = identityProviders[0];
   return {
     fhirBaseUrl: `${APP_BASE_URL}/fhir`,
-    oidcIssuer: process.env.OIDC_ISSUER ?? null,
-    oidcClientId: process.env.OIDC_CLIENT_ID ?? null,
-    oidcRedirectUri: process.env.OIDC_REDIRECT_URI ?? `${APP_BASE_URL}/`,
+    oidcIssuer: defaultProvider?.issuer ?? null,
+    oidcClientId: defaultProvider?.clientId ?? null,
+    oidcRedirectUri: defaultProvider?.redirectUri ?? `${APP_BASE_URL}/`,
+    identityProviders,
     mockAuth: MOCK_MODE,
     staticMode: STATIC_MODE,
     questionnaire: {
       url: FI_CANONICAL_URL,
       version: FI_VERSION
     },
-    questionnaireResource: STATIC_MODE ? canonicalQuestionnaire : undefined
+    questionnaireResource: STATIC_MODE ? canonicalQuestionnaire : undefined,
+    mockPersonas: STATIC_MODE && MOCK_MODE ? MOCK_PERSONAS : undefined
   };
 }
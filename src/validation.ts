@@ -0,0 +1,18 @@
+import type { FHIRResource } from './db';
+import type { OutcomeIssue } from './outcome';
+
+export function questionnaireResponseInvariants(resource: FHIRResource): OutcomeIssue[] {
+  const issues: OutcomeIssue[] = [];
+  if (!resource.questionnaire) {
+    issues.push(requiredIssue('QuestionnaireResponse.questionnaire is required', 'QuestionnaireResponse.questionnaire'));
+  }
+  if (!resource.status) {
+    issues.push(requiredIssue('QuestionnaireResponse.status is required', 'QuestionnaireResponse.status'));
+  }
+  // TODO: align authored/identifier invariants with HL7 register policies.
+  return issues;
+}
+
+function requiredIssue(diagnostics: string, expression: string): OutcomeIssue {
+  return { severity: 'error', code: 'required', diagnostics, expression: [expression] };
+}